@@ -1,15 +1,135 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Today from "./pages/Today";
 import Tasks from "./pages/Tasks";
 import History from "./pages/History";
+import Settings from "./pages/Settings";
+import DataStoreProvider from "./state/DataStoreProvider";
+import { useUndoState } from "./state/hooks";
+import { dismissNotice, getUndoState, redo, saveInBackground, undo } from "./state/undo";
+import type { DayISO } from "./domain/types";
+import { subscribeDayChange } from "./utils/clock";
+import { todayKey } from "./utils/date";
 
-type Tab = "today" | "tasks" | "history";
+type Tab = "today" | "tasks" | "history" | "settings";
+
+const TOAST_MS = 5000;
+
+// 文字を打つ input（チェックボックス・ラジオ・ボタンは含めない）
+const TEXT_INPUT_TYPES = new Set([
+  "text",
+  "search",
+  "number",
+  "date",
+  "time",
+  "datetime-local",
+  "month",
+  "week",
+  "email",
+  "url",
+  "tel",
+  "password",
+]);
+
+// 入力欄の中では、ブラウザ標準の文字の取り消しを優先する
+function isTextInput(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(target.type);
+  return target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+// 直近の操作を知らせて「元に戻す」を出す（Ctrl+Z / Ctrl+Shift+Z でも操作できる）
+function UndoToast() {
+  const { notice, canUndo, canRedo } = useUndoState();
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z" || isTextInput(e.target)) return;
+      e.preventDefault();
+      saveInBackground(e.shiftKey ? redo() : undo());
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!notice) return;
+    const id = notice.id;
+    const timer = setTimeout(() => {
+      if (getUndoState().notice?.id === id) dismissNotice();
+    }, TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  if (!notice) return null;
+
+  const message =
+    notice.kind === "done"
+      ? notice.label
+      : notice.kind === "undone"
+        ? `元に戻しました：${notice.label}`
+        : notice.kind === "redone"
+          ? `やり直しました：${notice.label}`
+          : `保存できませんでした：${notice.label}`;
+
+  return (
+    <div
+      style={{
+        position: "fixed",
+        left: "50%",
+        bottom: 16,
+        transform: "translateX(-50%)",
+        display: "flex",
+        gap: 12,
+        alignItems: "center",
+        padding: "10px 14px",
+        borderRadius: 10,
+        background: notice.kind === "failed" ? "#b71c1c" : "#333",
+        color: "white",
+        boxShadow: "0 2px 8px rgba(0,0,0,0.2)",
+        zIndex: 10,
+      }}
+    >
+      <span>{message}</span>
+      {(notice.kind === "done" || notice.kind === "redone") && canUndo && (
+        <button onClick={() => saveInBackground(undo())} style={{ padding: "4px 10px" }}>
+          元に戻す
+        </button>
+      )}
+      {notice.kind === "undone" && canRedo && (
+        <button onClick={() => saveInBackground(redo())} style={{ padding: "4px 10px" }}>
+          やり直す
+        </button>
+      )}
+      <button onClick={dismissNotice} style={{ padding: "4px 8px" }} aria-label="閉じる">
+        ×
+      </button>
+    </div>
+  );
+}
 
 export default function App() {
   const [tab, setTab] = useState<Tab>("today");
 
+  // Today で表示中の日（未来も選べる / 他のページから移動できる）
+  const [selectedDay, setSelectedDay] = useState<DayISO>(() => todayKey() as DayISO);
+
+  // 日付が変わったら、「今日」を見ていた場合だけ新しい今日へ進める（書きかけのメモは日付ごとに残る）
+  useEffect(
+    () =>
+      subscribeDayChange((prevDay, nextDay) => {
+        setSelectedDay((cur) => (cur === prevDay ? (nextDay as DayISO) : cur));
+      }),
+    []
+  );
+
+  function openDay(date: DayISO) {
+    setSelectedDay(date);
+    setTab("today");
+  }
+
+  // 全ページが同じ store を見るので、どのタブで書き込んでも他のタブに即反映される
   return (
-    <div>
+    <DataStoreProvider>
       <nav style={{ display: "flex", gap: 8, padding: 12, borderBottom: "1px solid #eee" }}>
         <button onClick={() => setTab("today")} style={{ padding: "8px 12px" }}>
           Today
@@ -20,17 +140,25 @@ export default function App() {
         <button onClick={() => setTab("history")} style={{ padding: "8px 12px" }}>
           History
         </button>
+        <button onClick={() => setTab("settings")} style={{ padding: "8px 12px" }}>
+          Settings
+        </button>
       </nav>
 
       <div style={{ display: tab === "today" ? "block" : "none" }}>
-        <Today />
+        <Today selectedDay={selectedDay} setSelectedDay={setSelectedDay} />
       </div>
       <div style={{ display: tab === "tasks" ? "block" : "none" }}>
         <Tasks />
       </div>
       <div style={{ display: tab === "history" ? "block" : "none" }}>
-        <History />
+        <History onOpenDay={openDay} />
       </div>
-    </div>
+      <div style={{ display: tab === "settings" ? "block" : "none" }}>
+        <Settings />
+      </div>
+
+      <UndoToast />
+    </DataStoreProvider>
   );
 }
@@ -0,0 +1,155 @@
+// src/domain/aggregate.ts
+import type { DayISO, DayLog, DayLogMap, ScoringProfileVersion, Task } from "./types";
+import { calcDayScore, type Rank } from "./scoring";
+import { addDays, isoWeekKey, isoWeekStart } from "../utils/date";
+
+export type PeriodKind = "week" | "month";
+
+export type PeriodAggregate = {
+  key: string;   // "YYYY-Www" / "YYYY-MM"
+  from: DayISO;  // 期間の初日（週は月曜、月は1日）
+  count: number; // 集計した日数
+  average: number;
+  median: number;
+  best?: { date: DayISO; score: number };
+  worst?: { date: DayISO; score: number };
+  rankCounts: Record<Rank, number>; // ランクの出た日数（ランクなしは含まない）
+  noRankDays: number;
+  coreDays: number;         // 最重要がある日
+  coreCompleteDays: number; // 最重要を全部達成した日
+  coreRate: number | null;  // coreCompleteDays / coreDays
+};
+
+export type PeriodDelta = {
+  average: number;         // 前の期間との差
+  median: number;
+  coreRate: number | null; // どちらかが null なら null
+};
+
+export type PeriodReport = PeriodAggregate & {
+  prevKey: string;
+  delta?: PeriodDelta; // 前の期間に記録が無ければ undefined
+};
+
+export type AggregateOptions = {
+  today: DayISO;            // これより後（未来）は数えない
+  includeExcluded?: boolean; // 除外日も数えるか（既定：数えない）
+};
+
+function periodFrom(date: DayISO, kind: PeriodKind): DayISO {
+  return (kind === "week" ? isoWeekStart(date) : `${date.slice(0, 7)}-01`) as DayISO;
+}
+
+function periodKey(from: DayISO, kind: PeriodKind): string {
+  return kind === "week" ? isoWeekKey(from) : from.slice(0, 7);
+}
+
+// 1つ前の期間の初日
+function prevPeriodFrom(from: DayISO, kind: PeriodKind): DayISO {
+  if (kind === "week") return addDays(from, -7) as DayISO;
+  return periodFrom(addDays(from, -1) as DayISO, "month");
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// 1つの期間の集計（渡された記録はすべてその期間のもの）
+export function aggregateLogs(
+  key: string,
+  from: DayISO,
+  logs: DayLog[],
+  currentTasks: Task[],
+  profiles: ScoringProfileVersion[]
+): PeriodAggregate {
+  const scores: number[] = [];
+  const rankCounts: Record<Rank, number> = {};
+  let noRankDays = 0;
+  let coreDays = 0;
+  let coreCompleteDays = 0;
+  let best: PeriodAggregate["best"];
+  let worst: PeriodAggregate["worst"];
+
+  for (const log of logs) {
+    const r = calcDayScore(log, currentTasks, profiles);
+    scores.push(r.rawScore);
+
+    if (r.rank) rankCounts[r.rank] = (rankCounts[r.rank] ?? 0) + 1;
+    else noRankDays += 1;
+
+    if (r.coreTotal > 0) {
+      coreDays += 1;
+      if (r.coreIncompleteCount === 0) coreCompleteDays += 1;
+    }
+
+    if (!best || r.rawScore > best.score) best = { date: log.date, score: r.rawScore };
+    if (!worst || r.rawScore < worst.score) worst = { date: log.date, score: r.rawScore };
+  }
+
+  return {
+    key,
+    from,
+    count: scores.length,
+    average: scores.length > 0 ? scores.reduce((a, b) => a + b, 0) / scores.length : 0,
+    median: median(scores),
+    best,
+    worst,
+    rankCounts,
+    noRankDays,
+    coreDays,
+    coreCompleteDays,
+    coreRate: coreDays > 0 ? coreCompleteDays / coreDays : null,
+  };
+}
+
+/**
+ * 週別 / 月別の集計（新しい順）
+ * - 週は ISO週（月〜日）、月はカレンダー月
+ * - 記録のある日だけを数える（未来日は数えない、除外日は includeExcluded 次第）
+ * - 前の期間（直前の週 / 月）に記録があれば差分を付ける
+ */
+export function aggregateByPeriod(
+  logs: DayLogMap,
+  currentTasks: Task[],
+  profiles: ScoringProfileVersion[],
+  kind: PeriodKind,
+  options: AggregateOptions
+): PeriodReport[] {
+  const groups = new Map<DayISO, DayLog[]>();
+
+  for (const [date, log] of Object.entries(logs) as Array<[DayISO, DayLog]>) {
+    if (date > options.today) continue;
+    if (log.excludeFromStats && !options.includeExcluded) continue;
+
+    const from = periodFrom(date, kind);
+    const list = groups.get(from) ?? [];
+    list.push(log);
+    groups.set(from, list);
+  }
+
+  const byFrom = new Map<DayISO, PeriodAggregate>();
+  for (const [from, list] of groups) {
+    byFrom.set(from, aggregateLogs(periodKey(from, kind), from, list, currentTasks, profiles));
+  }
+
+  return [...byFrom.values()]
+    .sort((a, b) => (a.from < b.from ? 1 : -1))
+    .map((agg): PeriodReport => {
+      const prevFrom = prevPeriodFrom(agg.from, kind);
+      const prev = byFrom.get(prevFrom);
+      return {
+        ...agg,
+        prevKey: periodKey(prevFrom, kind),
+        delta: prev
+          ? {
+              average: agg.average - prev.average,
+              median: agg.median - prev.median,
+              coreRate: agg.coreRate != null && prev.coreRate != null ? agg.coreRate - prev.coreRate : null,
+            }
+          : undefined,
+      };
+    });
+}
@@ -0,0 +1,109 @@
+// src/domain/audit.ts
+import type { AuditEntry, CheckValue, DayISO, DayLog } from "./types";
+import { isEmptyPlan } from "./plan";
+import { diffDays, todayKey } from "../utils/date";
+
+// 続けて入力したメモ・±ボタンの連打は表示のときに1件にまとめる（保存は追記のみ）
+const COALESCE_MS = 2 * 60 * 1000;
+
+// 空のチェック（false / 0 / 未定義）は「記録なし」として揃える
+function normalizeCheck(v: CheckValue | undefined): CheckValue | undefined {
+  return v === false || v === 0 || v === undefined ? undefined : v;
+}
+
+/**
+ * 保存の前後を比べて、変更履歴に足す項目を作る
+ * - prev / next が undefined = 記録なし（作成 / 削除）
+ * - スナップショットや時刻だけの変化は記録しない
+ */
+export function diffForAudit(prev: DayLog | undefined, next: DayLog | undefined, at: number): AuditEntry[] {
+  const out: AuditEntry[] = [];
+
+  const before = prev?.checks ?? {};
+  const after = next?.checks ?? {};
+  for (const taskId of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = normalizeCheck(before[taskId]);
+    const to = normalizeCheck(after[taskId]);
+    if (from !== to) out.push({ at, kind: "check", taskId, from, to });
+  }
+
+  const noteFrom = prev?.note ?? "";
+  const noteTo = next?.note ?? "";
+  if (noteFrom !== noteTo) out.push({ at, kind: "note", from: noteFrom, to: noteTo });
+
+  if (!!prev?.excludeFromStats !== !!next?.excludeFromStats) {
+    out.push({ at, kind: "exclude", to: !!next?.excludeFromStats });
+  }
+
+  // 除外を解除したときに理由が消えるのは「除外を解除」に含める
+  const reasonFrom = prev?.excludeReason ?? "";
+  const reasonTo = next?.excludeReason ?? "";
+  if (next?.excludeFromStats && reasonFrom !== reasonTo) {
+    out.push({ at, kind: "excludeReason", from: reasonFrom, to: reasonTo });
+  }
+
+  const adHocBefore = new Map((prev?.adHocTasks ?? []).map((t) => [t.id, t]));
+  const adHocAfter = new Map((next?.adHocTasks ?? []).map((t) => [t.id, t]));
+  for (const [id, t] of adHocAfter) {
+    const old = adHocBefore.get(id);
+    if (!old) out.push({ at, kind: "adHoc", change: "add", taskId: id, title: t.title });
+    else if (t.carriedTo && t.carriedTo !== old.carriedTo) {
+      out.push({ at, kind: "adHoc", change: "carry", taskId: id, title: t.title, carriedTo: t.carriedTo });
+    }
+  }
+  for (const [id, t] of adHocBefore) {
+    if (!adHocAfter.has(id)) out.push({ at, kind: "adHoc", change: "remove", taskId: id, title: t.title });
+  }
+
+  const planFrom = isEmptyPlan(prev?.plan) ? undefined : prev?.plan;
+  const planTo = isEmptyPlan(next?.plan) ? undefined : next?.plan;
+  if (JSON.stringify(planFrom ?? null) !== JSON.stringify(planTo ?? null)) {
+    out.push({ at, kind: "plan", from: planFrom, to: planTo });
+  }
+
+  return out;
+}
+
+// 直前の項目と同じ対象の続きなら、最初の from を残して1件にする
+function coalesce(last: AuditEntry, next: AuditEntry): AuditEntry | null {
+  if (next.at - last.at > COALESCE_MS) return null;
+  if (last.kind === "note" && next.kind === "note") return { ...next, from: last.from };
+  if (
+    last.kind === "check" &&
+    next.kind === "check" &&
+    last.taskId === next.taskId &&
+    typeof next.to === "number"
+  ) {
+    return { ...next, from: last.from };
+  }
+  return null;
+}
+
+/**
+ * 表示用に、続けて入力した分を1件にまとめる（古い順のまま / 保存内容は変えない）
+ * - まとめた結果が元に戻っていても消さない（後から変えて戻したことも残す）
+ */
+export function coalesceAudit(entries: AuditEntry[]): AuditEntry[] {
+  const out: AuditEntry[] = [];
+  for (const e of entries) {
+    const merged = out.length > 0 ? coalesce(out[out.length - 1], e) : null;
+    if (merged) out[out.length - 1] = merged;
+    else out.push(e);
+  }
+  return out;
+}
+
+// その変更が「その日から何日後」に行われたか（1日の区切りの設定を反映）
+export function editDelayDays(date: DayISO, entry: AuditEntry): number {
+  return diffDays(date, todayKey(new Date(entry.at)));
+}
+
+// lateDays 日より後の変更があれば、その中で一番遅い日数（なければ null）
+export function lateEditDelay(date: DayISO, entries: AuditEntry[], lateDays: number): number | null {
+  let max: number | null = null;
+  for (const e of entries) {
+    const delay = editDelayDays(date, e);
+    if (delay > lateDays && (max == null || delay > max)) max = delay;
+  }
+  return max;
+}
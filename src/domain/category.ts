@@ -0,0 +1,43 @@
+// src/domain/category.ts
+import type { Task } from "./types";
+
+// 分野が未指定のタスクの表示名（データ上は "" で持つ）
+export const UNCATEGORIZED_LABEL = "未分類";
+
+export function categoryOf(task: Task): string {
+  return task.category?.trim() ?? "";
+}
+
+export function categoryLabel(category: string): string {
+  return category || UNCATEGORIZED_LABEL;
+}
+
+// 使われている分野（一覧に出てくる順 / 未分類は最後）
+export function listCategories(tasks: Task[]): string[] {
+  const seen = new Set(tasks.map(categoryOf));
+  const named = [...seen].filter((c) => c !== "");
+  return seen.has("") ? [...named, ""] : named;
+}
+
+// 使われているタグ（五十音・アルファベット順）
+export function listTags(tasks: Task[]): string[] {
+  return [...new Set(tasks.flatMap((t) => t.tags ?? []))].sort((a, b) => a.localeCompare(b, "ja"));
+}
+
+// 「健康, 朝 ,,夜」→ ["健康", "朝", "夜"]（空・重複は除く）
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(/[,、]/).map((s) => s.trim()).filter(Boolean))];
+}
+
+export type CategoryGroup = {
+  category: string;
+  tasks: Task[];
+};
+
+// 分野ごとにまとめる（並び順は元のまま）
+export function groupByCategory(tasks: Task[]): CategoryGroup[] {
+  return listCategories(tasks).map((category) => ({
+    category,
+    tasks: tasks.filter((t) => categoryOf(t) === category),
+  }));
+}
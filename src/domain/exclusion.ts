@@ -0,0 +1,55 @@
+// src/domain/exclusion.ts
+import type { DayISO, DayLog, DayLogMap } from "./types";
+import { addDays } from "../utils/date";
+
+// 理由の候補（自由入力もできる）
+export const EXCLUDE_REASON_PRESETS = ["旅行", "体調不良", "出張", "帰省"];
+
+// 一度にまとめて除外できる日数の上限（入力ミスで何年分も書き込まないように）
+export const MAX_EXCLUDE_RANGE_DAYS = 366;
+
+// 連続して除外した日のまとまり（理由が同じものだけつなぐ）
+export type ExcludeRange = {
+  from: DayISO;
+  to: DayISO;
+  days: number;
+  reason: string; // 理由なし = ""
+};
+
+// from〜to の日付（両端を含む / from > to なら空）
+export function daysInRange(from: DayISO, to: DayISO): DayISO[] {
+  const out: DayISO[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1) as DayISO) out.push(d);
+  return out;
+}
+
+export function excludeWithReason(log: DayLog, reason: string): DayLog {
+  return { ...log, excludeFromStats: true, excludeReason: reason.trim() || undefined };
+}
+
+// 除外を解除するときは理由も消す
+export function clearExclusion(log: DayLog): DayLog {
+  return { ...log, excludeFromStats: false, excludeReason: undefined };
+}
+
+/**
+ * 除外した日を期間にまとめる（新しい順）
+ * - 日付が続いていて理由が同じならひとつの期間
+ */
+export function findExcludeRanges(logs: DayLogMap): ExcludeRange[] {
+  const dates = (Object.keys(logs) as DayISO[]).filter((d) => logs[d].excludeFromStats).sort();
+  const out: ExcludeRange[] = [];
+
+  for (const d of dates) {
+    const reason = logs[d].excludeReason ?? "";
+    const last = out[out.length - 1];
+    if (last && last.reason === reason && addDays(last.to, 1) === d) {
+      last.to = d;
+      last.days += 1;
+    } else {
+      out.push({ from: d, to: d, days: 1, reason });
+    }
+  }
+
+  return out.reverse();
+}
@@ -0,0 +1,58 @@
+// src/domain/maintenance.ts
+import type { DayISO, DayLog, DayLogMap, Task, TaskId } from "./types";
+
+// どのタスクにも結び付かないチェック（同じ id ごとにまとめる）
+export type OrphanCheck = {
+  taskId: TaskId;
+  dates: DayISO[]; // 古い順
+};
+
+/**
+ * 持ち主のいないチェックを探す
+ * - 今のタスク一覧（アーカイブ済みも含む）にも、その日のスナップショット・単発タスクにも無い id
+ * - 値が空（false / 0）のものは数えない
+ */
+export function findOrphanChecks(logs: DayLogMap, tasks: Task[]): OrphanCheck[] {
+  const known = new Set(tasks.map((t) => t.id));
+  const byId = new Map<TaskId, DayISO[]>();
+
+  for (const [date, log] of Object.entries(logs) as Array<[DayISO, DayLog]>) {
+    const snapshotIds = new Set([...(log.taskSnapshot ?? []), ...(log.adHocTasks ?? [])].map((t) => t.id));
+    for (const [id, value] of Object.entries(log.checks)) {
+      if (!value || known.has(id) || snapshotIds.has(id)) continue;
+      const dates = byId.get(id) ?? [];
+      dates.push(date);
+      byId.set(id, dates);
+    }
+  }
+
+  return [...byId.entries()]
+    .map(([taskId, dates]) => ({ taskId, dates: dates.sort() }))
+    .sort((a, b) => b.dates.length - a.dates.length);
+}
+
+/**
+ * チェックを別のタスクに付け替える
+ * - 付け替え先にすでに記録があればそちらを残す
+ * - その日のスナップショットに付け替え先が無ければ足す（表示・集計で引けるように）
+ */
+export function reattachCheck(log: DayLog, fromId: TaskId, to: Task): DayLog {
+  if (!(fromId in log.checks)) return log;
+
+  const checks = { ...log.checks };
+  if (!(to.id in checks)) checks[to.id] = checks[fromId];
+  delete checks[fromId];
+
+  const snapshot = log.taskSnapshot;
+  const taskSnapshot = snapshot && !snapshot.some((t) => t.id === to.id) ? [...snapshot, to] : snapshot;
+  return { ...log, checks, taskSnapshot };
+}
+
+// チェックを消す
+export function purgeCheck(log: DayLog, id: TaskId): DayLog {
+  if (!(id in log.checks)) return log;
+
+  const checks = { ...log.checks };
+  delete checks[id];
+  return { ...log, checks };
+}
@@ -0,0 +1,87 @@
+// src/domain/merge.ts
+import type { DayISO, DayLog, DayLogMap, Task } from "./types";
+
+// 取り込み方法
+// - replace: ファイルの内容で丸ごと置き換える
+// - merge-newer: 両方にある日は updatedAt が新しい方を採用
+// - keep-existing: 両方にある日は今のデータを残す（無い日だけ足す）
+export type MergeStrategy = "replace" | "merge-newer" | "keep-existing";
+
+export type DayDiffStatus =
+  | "added"    // 取り込み側にだけある
+  | "removed"  // 今のデータにだけある
+  | "same"     // 内容が同じ
+  | "changed"; // 両方にあって内容が違う
+
+export type DayDiff = {
+  date: DayISO;
+  status: DayDiffStatus;
+  current?: DayLog;
+  incoming?: DayLog;
+};
+
+function sameLog(a: DayLog, b: DayLog): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 同じ日の記録が2つあるとき、updatedAt が新しい方（同じなら a）
+export function pickNewerDayLog(a: DayLog, b: DayLog): DayLog {
+  return (b.updatedAt ?? 0) > (a.updatedAt ?? 0) ? b : a;
+}
+
+// 日ごとの差分（日付の昇順）
+export function diffDayLogMaps(current: DayLogMap, incoming: DayLogMap): DayDiff[] {
+  const dates = new Set([...Object.keys(current), ...Object.keys(incoming)] as DayISO[]);
+
+  return [...dates].sort().map((date) => {
+    const cur = current[date];
+    const inc = incoming[date];
+
+    let status: DayDiffStatus;
+    if (!cur) status = "added";
+    else if (!inc) status = "removed";
+    else status = sameLog(cur, inc) ? "same" : "changed";
+
+    return { date, status, current: cur, incoming: inc };
+  });
+}
+
+// その日が取り込み後にどうなるか（プレビュー表示用）
+export function resolveDayLog(diff: DayDiff, strategy: MergeStrategy): DayLog | undefined {
+  const { current, incoming } = diff;
+
+  if (strategy === "replace") return incoming;
+  if (!current) return incoming;
+  if (!incoming) return current;
+
+  return strategy === "merge-newer" ? pickNewerDayLog(current, incoming) : current;
+}
+
+export function mergeDayLogMaps(
+  current: DayLogMap,
+  incoming: DayLogMap,
+  strategy: MergeStrategy
+): DayLogMap {
+  const out: DayLogMap = {};
+  for (const diff of diffDayLogMaps(current, incoming)) {
+    const log = resolveDayLog(diff, strategy);
+    if (log) out[diff.date] = log;
+  }
+  return out;
+}
+
+// タスクは id 単位でマージ（今の並び順を保ち、新しいものは後ろに足す）
+export function mergeTasks(current: Task[], incoming: Task[], strategy: MergeStrategy): Task[] {
+  if (strategy === "replace") return incoming;
+
+  const incomingById = new Map(incoming.map((t) => [t.id, t]));
+  const currentIds = new Set(current.map((t) => t.id));
+
+  const kept = current.map((t) => {
+    const inc = incomingById.get(t.id);
+    if (!inc || strategy === "keep-existing") return t;
+    return (inc.updatedAt ?? 0) > (t.updatedAt ?? 0) ? inc : t;
+  });
+
+  return [...kept, ...incoming.filter((t) => !currentIds.has(t.id))];
+}
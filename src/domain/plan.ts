@@ -0,0 +1,92 @@
+// src/domain/plan.ts
+import type { DayISO, DayLogMap, DayPlan, PlanTarget, ScoringProfile, ScoringProfileVersion, Task } from "./types";
+import { calcDayScore, profileForDay, type ScoreResult } from "./scoring";
+
+// 何も決めていない予定（保存しない）
+export function isEmptyPlan(plan: DayPlan | undefined): boolean {
+  if (!plan) return true;
+  return !plan.restDay && !plan.target && (plan.skip ?? []).length === 0 && (plan.add ?? []).length === 0;
+}
+
+// 空になった予定は消す（記録ごと空なら削除されるように）
+export function normalizePlan(plan: DayPlan): DayPlan | undefined {
+  return isEmptyPlan(plan) ? undefined : plan;
+}
+
+// ランク名を低い順に並べる（baseRank → tiers の min 昇順）
+export function rankOrder(profile: ScoringProfile): string[] {
+  const tiers = profile.tiers.slice().sort((a, b) => a.min - b.min);
+  return [profile.baseRank, ...tiers.map((t) => t.name)];
+}
+
+/**
+ * 目標に届いたか
+ * - ランク：ランクが出ていて、目標以上の段（設定から消えたランク名は未達扱い）
+ * - スコア：rawScore が目標以上
+ */
+export function isTargetMet(target: PlanTarget, score: ScoreResult, profile: ScoringProfile): boolean {
+  if (target.kind === "score") return score.rawScore >= target.score;
+
+  if (!score.showRank || !score.rank) return false;
+  const order = rankOrder(profile);
+  const want = order.indexOf(target.rank);
+  return want >= 0 && order.indexOf(score.rank) >= want;
+}
+
+export function describeTarget(target: PlanTarget): string {
+  return target.kind === "rank" ? `ランク ${target.rank} 以上` : `${target.score}点以上`;
+}
+
+export type PlanAccuracy = {
+  plannedDays: number; // 予定を立てていた日数
+  restDays: number;    // うち休息日
+  targetDays: number;  // 目標を決めていた日数
+  metDays: number;     // 目標に届いた日数
+  rate: number | null; // metDays / targetDays（目標の日が無ければ null）
+  avgGap: number | null; // スコア目標の日の「実績 - 目標」の平均
+};
+
+/**
+ * 予定と実績の比較（渡した日付だけ / 未来日は呼び出し側で外す）
+ */
+export function calcPlanAccuracy(
+  logs: DayLogMap,
+  dates: DayISO[],
+  currentTasks: Task[],
+  profiles: ScoringProfileVersion[]
+): PlanAccuracy {
+  let plannedDays = 0;
+  let restDays = 0;
+  let targetDays = 0;
+  let metDays = 0;
+  let gapTotal = 0;
+  let gapDays = 0;
+
+  for (const d of dates) {
+    const log = logs[d];
+    if (!log || isEmptyPlan(log.plan)) continue;
+
+    plannedDays++;
+    if (log.plan?.restDay) restDays++;
+
+    const target = log.plan?.target;
+    if (!target) continue;
+
+    targetDays++;
+    const score = calcDayScore(log, currentTasks, profiles);
+    if (isTargetMet(target, score, profileForDay(profiles, d))) metDays++;
+    if (target.kind === "score") {
+      gapTotal += score.rawScore - target.score;
+      gapDays++;
+    }
+  }
+
+  return {
+    plannedDays,
+    restDays,
+    targetDays,
+    metDays,
+    rate: targetDays > 0 ? metDays / targetDays : null,
+    avgGap: gapDays > 0 ? gapTotal / gapDays : null,
+  };
+}
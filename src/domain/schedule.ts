@@ -0,0 +1,69 @@
+// src/domain/schedule.ts
+import type { DayISO, DayPlan, Recurrence, Task } from "./types";
+import { diffDays, weekdayOf } from "../utils/date";
+
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+export function isRecurringOn(rule: Recurrence | undefined, day: DayISO): boolean {
+  if (!rule) return true;
+
+  switch (rule.kind) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return rule.days.includes(weekdayOf(day));
+    case "interval": {
+      const every = Math.max(1, Math.round(rule.every));
+      const n = diffDays(rule.start, day);
+      return n >= 0 && n % every === 0;
+    }
+    case "range":
+      if (rule.from && day < rule.from) return false;
+      if (rule.to && day > rule.to) return false;
+      return true;
+  }
+}
+
+// その日に「やる日」のタスクか（休止中は対象外）
+export function isScheduledOn(task: Task, day: DayISO): boolean {
+  return task.isActive && isRecurringOn(task.recurrence, day);
+}
+
+export function scheduledTasks(tasks: Task[], day: DayISO): Task[] {
+  return tasks.filter((t) => isScheduledOn(t, day));
+}
+
+/**
+ * 予定を反映して、その日にやるタスクか
+ * - 休息日：繰り返しのタスクはすべて対象外
+ * - skip：実施日でも外す / add：実施日でなくても入れる（休止中は入れない）
+ */
+export function isPlannedOn(task: Task, day: DayISO, plan: DayPlan | undefined): boolean {
+  if (!plan) return isScheduledOn(task, day);
+  if (plan.restDay || !task.isActive) return false;
+  if (plan.skip?.includes(task.id)) return false;
+  return isRecurringOn(task.recurrence, day) || !!plan.add?.includes(task.id);
+}
+
+export function plannedTasks(tasks: Task[], day: DayISO, plan: DayPlan | undefined): Task[] {
+  return tasks.filter((t) => isPlannedOn(t, day, plan));
+}
+
+export function recurrenceLabel(rule: Recurrence | undefined): string {
+  if (!rule || rule.kind === "daily") return "毎日";
+
+  switch (rule.kind) {
+    case "weekdays":
+      return (
+        rule.days
+          .slice()
+          .sort()
+          .map((d) => WEEKDAY_LABELS[d])
+          .join("・") || "曜日未設定"
+      );
+    case "interval":
+      return `${rule.start}から${rule.every}日ごと`;
+    case "range":
+      return `${rule.from ?? ""}〜${rule.to ?? ""}`;
+  }
+}
@@ -1,7 +1,32 @@
 // src/domain/scoring.ts
-import type { DayLog, Task } from "./types";
+import type {
+  CheckValue,
+  DayISO,
+  DayLog,
+  DayLogMap,
+  ScoringProfile,
+  ScoringProfileVersion,
+  Task,
+} from "./types";
+import { isPlannedOn, plannedTasks } from "./schedule";
+import { categoryOf } from "./category";
+import { addDays } from "../utils/date";
 
-export type Rank = "A" | "S" | "SS" | "SSS";
+// ランク名は設定で変えられる（既定は "A" | "S" | "SS" | "SSS"）
+export type Rank = string;
+
+// 既定の設定（これまでの確定仕様と同じ）
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  corePool: 100,
+  missPenalty: 0,
+  rankRequiresAllCore: true,
+  baseRank: "A", // 100点が基本
+  tiers: [
+    { name: "S", min: 101 },
+    { name: "SS", min: 120 },
+    { name: "SSS", min: 150 },
+  ],
+};
 
 export type ScoreResult = {
   rawScore: number;             // 内部スコア（表示スコアもこれ）
@@ -10,51 +35,157 @@ export type ScoreResult = {
   coreIncompleteCount: number;  // 未達の最重要タスク数
   showRank: boolean;            // ランク表示するか
   rank?: Rank;                  // showRank=true のときのみ
+  byCategory: Record<string, number>; // 分野ごとの得点（未分類 = ""）。未達ペナルティは引く前
 };
 
-function activeTasks(tasks: Task[]): Task[] {
-  return tasks.filter((t) => t.isActive);
+// 運用中で、その日にやるタスク（実施日 + 予定の出し入れ / 単発タスクは予定に関係なく入れる）
+export function activeTasks(tasks: Task[], dayLog: DayLog): Task[] {
+  const adHoc = (dayLog.adHocTasks ?? []).filter((t) => t.isActive);
+  return [...plannedTasks(tasks, dayLog.date, dayLog.plan), ...adHoc];
 }
 
 function coreTasks(tasks: Task[]): Task[] {
   return tasks.filter((t) => t.isActive && t.isCore);
 }
 
+// 週N回タスクは日ごとのスコアには入れない（週で評価する）
 function bonusTasks(tasks: Task[]): Task[] {
-  return tasks.filter((t) => t.isActive && !t.isCore);
+  return tasks.filter((t) => t.isActive && !t.isCore && !isWeeklyTask(t));
+}
+
+export function isWeeklyTask(t: Task): boolean {
+  return (t.weeklyTarget ?? 0) > 0;
+}
+
+export function isQuantityTask(t: Task): boolean {
+  return (t.target ?? 0) > 0;
+}
+
+// 量タスクの実績（古い boolean は true = 目標達成として読む）
+export function amountOf(task: Task, value: CheckValue | undefined): number {
+  if (typeof value === "number") return value;
+  return value ? task.target ?? 1 : 0;
+}
+
+/**
+ * 達成率（0〜1）
+ * - 通常タスク：チェックあり = 1
+ * - 量タスク：実績 / 目標（目標で頭打ち）、minRatio 未満は 0
+ */
+export function progressRatio(task: Task, value: CheckValue | undefined): number {
+  if (!isQuantityTask(task)) return value ? 1 : 0;
+
+  const target = task.target ?? 1;
+  const ratio = Math.min(1, Math.max(0, amountOf(task, value) / target));
+  return ratio < (task.minRatio ?? 0) ? 0 : ratio;
+}
+
+export function isTaskDone(task: Task, value: CheckValue | undefined): boolean {
+  return progressRatio(task, value) >= 1;
 }
 
 function countDone(tasks: Task[], checks: DayLog["checks"]): number {
   let n = 0;
   for (const t of tasks) {
-    if (checks[t.id]) n += 1;
+    if (isTaskDone(t, checks[t.id])) n += 1;
   }
   return n;
 }
 
+// 最重要の達成率の合計（量タスクは部分点）
+function sumCoreRatio(tasks: Task[], checks: DayLog["checks"]): number {
+  let total = 0;
+  for (const t of tasks) {
+    total += progressRatio(t, checks[t.id]);
+  }
+  return total;
+}
+
 function sumBonusPoints(tasks: Task[], checks: DayLog["checks"]): number {
   let total = 0;
   for (const t of tasks) {
-    if (checks[t.id]) total += t.points;
+    total += t.points * progressRatio(t, checks[t.id]);
   }
   return total;
 }
 
-export function calcRank(score: number): Rank {
-  if (score >= 150) return "SSS";
-  if (score >= 120) return "SS";
-  if (score >= 101) return "S";
-  return "A"; // 100点が基本
+// 分野ごとの得点（最重要は 1個あたりの点 × 達成率、加点は points × 達成率）
+function sumByCategory(
+  cores: Task[],
+  bonuses: Task[],
+  coreUnit: number,
+  checks: DayLog["checks"]
+): Record<string, number> {
+  const out: Record<string, number> = {};
+  const add = (t: Task, v: number) => {
+    const c = categoryOf(t);
+    out[c] = (out[c] ?? 0) + v;
+  };
+  for (const t of cores) add(t, progressRatio(t, checks[t.id]) * coreUnit);
+  for (const t of bonuses) add(t, t.points * progressRatio(t, checks[t.id]));
+  return out;
 }
 
 /**
- * スコア計算ルール（確定仕様）
- * - 最重要タスクがN個 → 1個あたり 100/N 点（合計100）
- * - rawScore = (達成core数 * 100/N) + (達成bonusのpoints合計)
- * - ランク表示は「最重要全達成」のときのみ
+ * その日のスコア計算に使うタスク定義
+ * - ログにスナップショットがあればそれを使う（過去の点数・ランクを固定する）
+ * - なければ現在のタスク（記録のない日など）
  */
-export function calcScore(tasks: Task[], dayLog: DayLog): ScoreResult {
-  const actives = activeTasks(tasks);
+export function tasksForDay(log: DayLog | undefined, current: Task[]): Task[] {
+  return log?.taskSnapshot ?? current;
+}
+
+// その日に有効な設定（effectiveFrom がその日以前で一番新しい版）
+export function profileForDay(versions: ScoringProfileVersion[], day: DayISO): ScoringProfile {
+  let best: ScoringProfileVersion | undefined;
+  for (const v of versions) {
+    if (v.effectiveFrom && v.effectiveFrom > day) continue;
+    if (!best || (v.effectiveFrom ?? "") >= (best.effectiveFrom ?? "")) best = v;
+  }
+  return best?.profile ?? DEFAULT_SCORING_PROFILE;
+}
+
+/**
+ * 新しい設定を版として追加する
+ * - from 指定あり：その日から適用（それより前の日は元の設定のまま）
+ * - from 未指定：過去も含めて全期間をこの設定にする
+ */
+export function addProfileVersion(
+  versions: ScoringProfileVersion[],
+  profile: ScoringProfile,
+  from?: DayISO
+): ScoringProfileVersion[] {
+  if (!from) return [{ profile }];
+
+  const kept = versions.filter((v) => !v.effectiveFrom || v.effectiveFrom < from);
+  return [...kept, { effectiveFrom: from, profile }];
+}
+
+export function calcRank(score: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): Rank {
+  const tiers = profile.tiers.slice().sort((a, b) => b.min - a.min);
+  for (const t of tiers) {
+    if (score >= t.min) return t.name;
+  }
+  return profile.baseRank;
+}
+
+/**
+ * スコア計算ルール（確定仕様 / 数値は設定で変えられる）
+ * - 最重要タスクがN個 → 1個あたり 100/N 点（合計100 = corePool）
+ * - rawScore = (達成core数 * 100/N) + (達成bonusのpoints合計) - (未達core数 * missPenalty)
+ * - 量タスクは達成率に応じた部分点（目標で頭打ち / 下限未満は0）。「達成」に数えるのは目標到達のみ
+ * - ランク表示は「最重要全達成」のときのみ（rankRequiresAllCore=false なら常に）
+ * - 実施日でないタスク（曜日指定など）はその日の対象に含めない（予定があれば予定に従う）
+ * - その日の単発タスク（dayLog.adHocTasks）も対象に含める
+ * - byCategory は分野ごとの内訳（ペナルティを引く前なので、合計は rawScore 以上になることがある）
+ */
+export function calcScore(
+  tasks: Task[],
+  dayLog: DayLog,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreResult {
+  // その日だけの単発タスクも、選んだ区分（最重要 / 加点）で数える
+  const actives = activeTasks(tasks, dayLog);
 
   const cores = coreTasks(actives);
   const bonuses = bonusTasks(actives);
@@ -62,7 +193,7 @@ export function calcScore(tasks: Task[], dayLog: DayLog): ScoreResult {
   const coreTotal = cores.length;
 
   // 最重要が0件だと割り算できないので、運用上は0件を避けるが安全に処理する
-  const coreUnit = coreTotal > 0 ? 100 / coreTotal : 0;
+  const coreUnit = coreTotal > 0 ? profile.corePool / coreTotal : 0;
 
   const coreDone = countDone(cores, dayLog.checks);
   const coreIncompleteCount = coreTotal - coreDone;
@@ -70,13 +201,16 @@ export function calcScore(tasks: Task[], dayLog: DayLog): ScoreResult {
   const bonusScore = sumBonusPoints(bonuses, dayLog.checks);
 
   // 最重要は「個数に応じて合計100」にする（小数になる可能性あり）
-  const coreScore = coreDone * coreUnit;
+  const coreScore = sumCoreRatio(cores, dayLog.checks) * coreUnit;
+
+  // 未達ペナルティ（0点より下にはしない）
+  const penalty = coreIncompleteCount * profile.missPenalty;
 
   // 内部スコア（努力は残す）
-  const rawScore = coreScore + bonusScore;
+  const rawScore = Math.max(0, coreScore + bonusScore - penalty);
 
-  const showRank = coreTotal > 0 && coreIncompleteCount === 0;
-  const rank = showRank ? calcRank(rawScore) : undefined;
+  const showRank = profile.rankRequiresAllCore ? coreTotal > 0 && coreIncompleteCount === 0 : true;
+  const rank = showRank ? calcRank(rawScore, profile) : undefined;
 
   return {
     rawScore,
@@ -85,5 +219,70 @@ export function calcScore(tasks: Task[], dayLog: DayLog): ScoreResult {
     coreIncompleteCount,
     showRank,
     rank,
+    byCategory: sumByCategory(cores, bonuses, coreUnit, dayLog.checks),
+  };
+}
+
+// 保存済みの記録1日分のスコア（その日のタスク定義・その日に有効な設定で計算）
+export function calcDayScore(
+  log: DayLog,
+  currentTasks: Task[],
+  profiles: ScoringProfileVersion[]
+): ScoreResult {
+  return calcScore(tasksForDay(log, currentTasks), log, profileForDay(profiles, log.date));
+}
+
+export type WeeklyProgress = {
+  task: Task;
+  target: number;    // 週の目標回数
+  done: number;      // 今週の達成回数
+  achieved: boolean; // 目標到達
+  score: number;     // 週の加点（points × 達成率、上限あり）
+};
+
+export type WeeklyScoreResult = {
+  weekStart: DayISO; // 月曜
+  weekEnd: DayISO;   // 日曜
+  progress: WeeklyProgress[];
+  weeklyScore: number;   // 週N回タスクの加点合計
+  achievedCount: number; // 目標到達したタスク数
+};
+
+/**
+ * 週N回タスクの集計（ISO週：月〜日）
+ * - その週の定義は「週内で最後に記録のある日のスナップショット」（なければ現在のタスク）
+ * - 実施日（期間指定など）でない日のチェックは数えない（予定で出し入れした日はそれに従う）
+ * - 週の加点 = points × min(達成回数, 目標) / 目標
+ */
+export function calcWeeklyScore(currentTasks: Task[], logs: DayLogMap, weekStart: DayISO): WeeklyScoreResult {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i) as DayISO);
+
+  let defs = currentTasks;
+  for (const d of days) {
+    defs = tasksForDay(logs[d], defs);
+  }
+
+  const weekly = defs.filter((t) => isWeeklyTask(t) && days.some((d) => isPlannedOn(t, d, logs[d]?.plan)));
+
+  const progress = weekly.map((task): WeeklyProgress => {
+    const target = task.weeklyTarget ?? 1;
+    const done = days.filter(
+      (d) => isPlannedOn(task, d, logs[d]?.plan) && isTaskDone(task, logs[d]?.checks[task.id])
+    ).length;
+    return {
+      task,
+      target,
+      done,
+      achieved: done >= target,
+      score: (task.points * Math.min(done, target)) / target,
+    };
+  });
+
+  return {
+    weekStart,
+    weekEnd: days[6],
+    progress,
+    weeklyScore: progress.reduce((sum, p) => sum + p.score, 0),
+    achievedCount: progress.filter((p) => p.achieved).length,
   };
 }
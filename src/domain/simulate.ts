@@ -0,0 +1,102 @@
+// src/domain/simulate.ts
+import type { CheckValue, DayLog, ScoringProfile, Task } from "./types";
+import { activeTasks, calcScore, isTaskDone, isWeeklyTask, progressRatio, type ScoreResult } from "./scoring";
+
+// 「もしも達成したら」のチェック値（量タスクは目標ちょうど）
+export function fullCheck(task: Task): CheckValue {
+  return task.target && task.target > 0 ? task.target : true;
+}
+
+// 仮のチェックを重ねた記録（保存はしない）
+export function withHypothetical(log: DayLog, tasks: Task[]): DayLog {
+  const checks = { ...log.checks };
+  for (const t of tasks) checks[t.id] = fullCheck(t);
+  return { ...log, checks };
+}
+
+export type RankPath = {
+  rank: string;
+  min: number;
+  reached: boolean;  // もう届いている
+  reachable: boolean; // 残りのタスクを全部やれば届く
+  bonus: Task[];     // 届くのに必要な加点タスク（最少の個数）
+  score: ScoreResult; // 最重要の残り + bonus を達成したときの結果
+};
+
+export type RankSimulation = {
+  missingCore: Task[]; // ランク表示に必要な、残りの最重要タスク
+  paths: RankPath[];   // 上位ランクごと（低い順）
+};
+
+// 達成したら増える点（量タスクは残りの分だけ）
+function bonusGain(task: Task, value: CheckValue | undefined): number {
+  return task.points * (1 - progressRatio(task, value));
+}
+
+/**
+ * 次のランクまでに何が要るか
+ * - 最重要の残りは全部やる前提（ランク表示に必要なとき）
+ * - 加点タスクは「個数が最少」になる組み合わせを選び、同じ個数なら超過の少ない方に寄せる
+ */
+export function simulateRanks(tasks: Task[], log: DayLog, profile: ScoringProfile): RankSimulation {
+  const actives = activeTasks(tasks, log);
+  const missingCore = actives.filter((t) => t.isCore && !isTaskDone(t, log.checks[t.id]));
+  const base = withHypothetical(log, missingCore);
+  const baseScore = calcScore(tasks, base, profile);
+
+  // 伸びしろの大きい順
+  const candidates = actives
+    .filter((t) => !t.isCore && !isWeeklyTask(t) && !isTaskDone(t, log.checks[t.id]))
+    .map((task) => ({ task, gain: bonusGain(task, log.checks[task.id]) }))
+    .filter((c) => c.gain > 0)
+    .sort((a, b) => b.gain - a.gain);
+
+  const current = calcScore(tasks, log, profile);
+  const tiers = profile.tiers.slice().sort((a, b) => a.min - b.min);
+
+  const paths = tiers.map((tier): RankPath => {
+    const need = tier.min - baseScore.rawScore;
+    const reached = current.showRank && current.rawScore >= tier.min;
+
+    // 大きい順に取っていけば個数は最少になる
+    const picked: typeof candidates = [];
+    let sum = 0;
+    for (const c of candidates) {
+      if (sum >= need) break;
+      picked.push(c);
+      sum += c.gain;
+    }
+    const reachable = sum >= need;
+
+    // 同じ個数のまま、取ったものを小さい候補に替えて超過を減らす
+    if (reachable) {
+      for (let i = picked.length - 1; i >= 0; i--) {
+        const rest = sum - picked[i].gain;
+        const smaller = candidates
+          .filter((c) => !picked.includes(c) && rest + c.gain >= need && c.gain < picked[i].gain)
+          .sort((a, b) => a.gain - b.gain)[0];
+        if (smaller) {
+          sum = rest + smaller.gain;
+          picked[i] = smaller;
+        }
+      }
+    }
+
+    const bonus = picked.map((c) => c.task);
+    return {
+      rank: tier.name,
+      min: tier.min,
+      reached,
+      reachable,
+      bonus: reachable ? bonus : [],
+      score: calcScore(tasks, withHypothetical(base, bonus), profile),
+    };
+  });
+
+  return { missingCore, paths };
+}
+
+// 仮チェックの対象（まだ達成していないタスク）
+export function uncheckedTasks(tasks: Task[], log: DayLog): Task[] {
+  return activeTasks(tasks, log).filter((t) => !isWeeklyTask(t) && !isTaskDone(t, log.checks[t.id]));
+}
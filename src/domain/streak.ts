@@ -0,0 +1,85 @@
+// src/domain/streak.ts
+import type { DayISO, DayLogMap, ScoringProfileVersion, Task } from "./types";
+import { calcDayScore } from "./scoring";
+import { addDays } from "../utils/date";
+
+// 1日の扱い
+// - done: 最重要を全部達成
+// - freeze: 集計から除外した日・最重要の実施日でない日（連続を切らないが、日数にも数えない）
+// - miss: 最重要未達（記録なしも含む）
+type DayStatus = "done" | "freeze" | "miss";
+
+export type StreakRun = {
+  start: DayISO;  // 最初の達成日
+  end: DayISO;    // 最後の達成日
+  length: number; // 達成日数（freeze日は含まない）
+};
+
+export type StreakResult = {
+  current: number;     // 今続いている連続日数（今日が未達でも昨日まで続いていれば維持）
+  longest: number;
+  history: StreakRun[]; // 古い順
+};
+
+function dayStatus(
+  logs: DayLogMap,
+  currentTasks: Task[],
+  profiles: ScoringProfileVersion[],
+  date: DayISO
+): DayStatus {
+  // 記録が無い日も「その日に最重要があったか」は見る（実施日でなければ freeze）
+  const log = logs[date] ?? { date, checks: {} };
+  if (log.excludeFromStats) return "freeze";
+
+  const score = calcDayScore(log, currentTasks, profiles);
+  if (score.coreTotal === 0) return "freeze";
+  return score.coreIncompleteCount === 0 ? "done" : "miss";
+}
+
+/**
+ * 連続達成（最重要全達成の日の連続）
+ * - 除外日は freeze 扱いで連続を切らない
+ * - 今日はまだ途中なので、未達でも連続は切らない（達成していれば数える）
+ */
+export function calcStreaks(
+  logs: DayLogMap,
+  currentTasks: Task[],
+  today: DayISO,
+  profiles: ScoringProfileVersion[] = []
+): StreakResult {
+  const dates = (Object.keys(logs) as DayISO[]).filter((d) => d <= today).sort();
+  if (dates.length === 0) return { current: 0, longest: 0, history: [] };
+
+  const history: StreakRun[] = [];
+  let run: StreakRun | null = null;
+
+  for (let d = dates[0]; d <= today; d = addDays(d, 1) as DayISO) {
+    const status = dayStatus(logs, currentTasks, profiles, d);
+
+    if (status === "done") {
+      if (run) {
+        run.end = d;
+        run.length += 1;
+      } else {
+        run = { start: d, end: d, length: 1 };
+      }
+      continue;
+    }
+
+    if (status === "freeze") continue;
+
+    // miss：今日だけは「まだ途中」なので切らない
+    if (d === today) continue;
+
+    if (run) history.push(run);
+    run = null;
+  }
+
+  if (run) history.push(run);
+
+  const last = history[history.length - 1];
+  const current = last && run === last ? last.length : 0;
+  const longest = history.reduce((max, r) => Math.max(max, r.length), 0);
+
+  return { current, longest, history };
+}
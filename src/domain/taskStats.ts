@@ -0,0 +1,107 @@
+// src/domain/taskStats.ts
+import type { DayISO, DayLogMap, Task, TaskId } from "./types";
+import { isTaskDone, progressRatio, tasksForDay } from "./scoring";
+import { isPlannedOn } from "./schedule";
+import { addDays, weekdayOf } from "../utils/date";
+
+// 1日の扱い（タスク単位）
+// - done: 達成
+// - miss: 対象日なのに未達（記録なしも含む）
+// - skip: 対象外（運用外・実施日でない・除外日・タスクがまだ無かった日）
+type TaskDayStatus = "done" | "miss" | "skip";
+
+export type TaskRate = {
+  days: number;  // 集計した期間（7/30/90）
+  total: number; // 対象日数
+  done: number;  // 達成日数
+  rate: number | null; // done / total（対象日が無ければ null）
+};
+
+export type TaskStats = {
+  taskId: TaskId;
+  rates: TaskRate[];
+  currentStreak: number; // 今日が未達でも昨日まで続いていれば維持
+  longestStreak: number;
+  byWeekday: Array<{ total: number; done: number }>; // 0=日 … 6=土（全期間）
+  sparkline: Array<{ date: DayISO; ratio: number | null }>; // 直近30日の達成率（対象外は null）
+};
+
+const RATE_WINDOWS = [7, 30, 90];
+const SPARKLINE_DAYS = 30;
+
+// その日のタスク定義（スナップショット優先）で、運用中かつその日にやる予定ならその定義を返す
+function taskOnDay(logs: DayLogMap, currentTasks: Task[], taskId: TaskId, date: DayISO): Task | undefined {
+  const t = tasksForDay(logs[date], currentTasks).find((x) => x.id === taskId);
+  if (!t || !isPlannedOn(t, date, logs[date]?.plan)) return undefined;
+  return t;
+}
+
+// 記録のある日で、最初にこのタスクが定義に現れた日（それより前は「まだ無かった」扱い）
+function firstSeen(logs: DayLogMap, currentTasks: Task[], taskId: TaskId): DayISO | undefined {
+  const dates = (Object.keys(logs) as DayISO[]).sort();
+  return dates.find((d) => tasksForDay(logs[d], currentTasks).some((t) => t.id === taskId));
+}
+
+/**
+ * タスク1つの統計（DayLog.checks から作る）
+ * - 運用中で実施日の日だけを対象にする（その日のスナップショットで判定）
+ * - 集計から除外した日は対象外
+ * - 連続は対象外の日を飛ばして数える（切らない）
+ */
+export function calcTaskStats(taskId: TaskId, logs: DayLogMap, currentTasks: Task[], today: DayISO): TaskStats {
+  const start = firstSeen(logs, currentTasks, taskId) ?? today;
+
+  const statusOf = new Map<DayISO, TaskDayStatus>();
+  const ratioOf = new Map<DayISO, number>();
+
+  for (let d = start; d <= today; d = addDays(d, 1) as DayISO) {
+    const log = logs[d];
+    const t = taskOnDay(logs, currentTasks, taskId, d);
+    if (!t || log?.excludeFromStats) {
+      statusOf.set(d, "skip");
+      continue;
+    }
+    const value = log?.checks[taskId];
+    ratioOf.set(d, progressRatio(t, value));
+    statusOf.set(d, isTaskDone(t, value) ? "done" : "miss");
+  }
+
+  const rates = RATE_WINDOWS.map((days): TaskRate => {
+    let total = 0;
+    let done = 0;
+    for (let i = 0; i < days; i++) {
+      const s = statusOf.get(addDays(today, -i) as DayISO);
+      if (!s || s === "skip") continue;
+      total += 1;
+      if (s === "done") done += 1;
+    }
+    return { days, total, done, rate: total > 0 ? done / total : null };
+  });
+
+  // 連続（古い順に見る）
+  let run = 0;
+  let longestStreak = 0;
+  for (const [d, s] of statusOf) {
+    if (s === "done") {
+      run += 1;
+      longestStreak = Math.max(longestStreak, run);
+    } else if (s === "miss" && d !== today) {
+      run = 0;
+    }
+  }
+
+  const byWeekday = Array.from({ length: 7 }, () => ({ total: 0, done: 0 }));
+  for (const [d, s] of statusOf) {
+    if (s === "skip") continue;
+    const w = byWeekday[weekdayOf(d)];
+    w.total += 1;
+    if (s === "done") w.done += 1;
+  }
+
+  const sparkline = Array.from({ length: SPARKLINE_DAYS }, (_, i) => {
+    const date = addDays(today, i - (SPARKLINE_DAYS - 1)) as DayISO;
+    return { date, ratio: ratioOf.get(date) ?? null };
+  });
+
+  return { taskId, rates, currentStreak: run, longestStreak, byWeekday, sparkline };
+}
@@ -3,6 +3,13 @@
 // タスクID（ただの文字列だけど意味を明確にする）
 export type TaskId = string;
 
+// 実施日のルール（未指定 = 毎日）
+export type Recurrence =
+  | { kind: "daily" }
+  | { kind: "weekdays"; days: number[] }               // 0=日 … 6=土
+  | { kind: "interval"; every: number; start: DayISO } // start から every 日ごと
+  | { kind: "range"; from?: DayISO; to?: DayISO };     // 期間中は毎日
+
 // タスクの設計図
 export type Task = {
   id: TaskId;
@@ -10,20 +17,100 @@ export type Task = {
   points: number;      // 加点用スコア
   isCore: boolean;     // 最重要タスクか
   isActive: boolean;   // 使っているか
+  recurrence?: Recurrence; // いつやるか（未指定 = 毎日）
+  category?: string;       // 分野（健康・勉強・家事など / 未指定 = 未分類）。Today のまとまり・分野別の点数に使う
+  tags?: string[];         // 自由なタグ（Tasks の絞り込み用）
+  weeklyTarget?: number;   // 週N回タスク（指定あり = 日ごとではなく週の回数で評価 / 加点のみ）
+
+  // 量で記録するタスク（target 指定あり = 達成率に応じた部分点）
+  unit?: string;     // 単位（杯、分、ページ など）
+  target?: number;   // 目標量（これで満点）
+  minRatio?: number; // 0〜1：これ未満の達成率は0点扱い（未指定 = 0）
+  updatedAt?: number;  // ms（バックアップ取り込み時の新旧比較用）
+  archivedAt?: number; // ms：アーカイブ済み（一覧・今日の対象から外すが、過去の記録の表示用に残す）
 };
 
 // 日付（YYYY-MM-DD 形式）
 export type DayISO = `${number}-${number}-${number}`;
 
+// チェックの値（true/false = 達成したか / 数値 = 量タスクの実績）
+// ※量タスクに古い true が残っていても「目標達成」として読む
+export type CheckValue = boolean | number;
+
 // 1日の記録
 export type DayLog = {
   date: DayISO;
-  checks: Record<TaskId, boolean>;
+  checks: Record<TaskId, CheckValue>;
   note?: string;
   excludeFromStats?: boolean; // false or undefined = 集計に含める
+  excludeReason?: string;     // 除外の理由（「旅行」「体調不良」など / 期間でまとめて除外したとき）
+
+  // その日に有効だったタスク定義（後からタスクを編集しても過去のスコアが変わらないように）
+  taskSnapshot?: Task[];
+  adHocTasks?: AdHocTask[]; // この日だけの単発タスク（チェックは checks に同じく入る）
+  plan?: DayPlan;           // 前もって決めておいた予定（やるタスク・休息日・目標）
 
   // ★追加：透明性
   createdAt?: number; // ms
   updatedAt?: number; // ms
 };
 
+// その日だけの単発タスク（繰り返さない / 最重要か加点かはこのタスクごとに選ぶ）
+export type AdHocTask = Task & {
+  carriedFrom?: DayISO; // 前の日から繰り越してきた
+  carriedTo?: DayISO;   // 次の日へ繰り越し済み（この日は未達のまま残る）
+};
+
+// 予定の目標（ランク名 or rawScore）
+export type PlanTarget = { kind: "rank"; rank: string } | { kind: "score"; score: number };
+
+// 1日の予定（未来日に立てておき、当日はこれに沿って表示・集計する）
+export type DayPlan = {
+  skip?: TaskId[];    // 実施日だけどこの日はやらない
+  add?: TaskId[];     // 実施日ではないけどこの日はやる
+  restDay?: boolean;  // 休息日（繰り返しのタスクは対象にしない / 単発タスクは残る）
+  target?: PlanTarget;
+};
+
+// 日付 -> 1日の記録
+export type DayLogMap = Record<DayISO, DayLog>;
+
+// 1日の記録の変更履歴（追記のみ）
+export type AuditEntry =
+  | { at: number; kind: "check"; taskId: TaskId; from?: CheckValue; to?: CheckValue } // 未定義 = 記録なし
+  | { at: number; kind: "note"; from: string; to: string }
+  | { at: number; kind: "exclude"; to: boolean }
+  | { at: number; kind: "excludeReason"; from: string; to: string }
+  | { at: number; kind: "adHoc"; change: "add" | "remove" | "carry"; taskId: TaskId; title: string; carriedTo?: DayISO }
+  | { at: number; kind: "plan"; from?: DayPlan; to?: DayPlan }; // 未定義 = 予定なし
+
+// 日付 -> その日の変更履歴（古い順）
+export type AuditLogMap = Record<DayISO, AuditEntry[]>;
+
+
+// ランクの段（min 点以上でこのランク）
+export type RankTier = {
+  name: string;
+  min: number;
+};
+
+// スコア計算の設定（人ごとに調整できる）
+export type ScoringProfile = {
+  corePool: number;             // 最重要の合計点（既定 100）
+  missPenalty: number;          // 未達の最重要1つあたりの減点（既定 0）
+  rankRequiresAllCore: boolean; // 最重要全達成のときだけランクを出す
+  baseRank: string;             // どの段にも届かないときのランク名
+  tiers: RankTier[];            // 上位ランク
+};
+
+// 設定の版（過去の点数・ランクを書き換えないように、いつから有効かを持つ）
+export type ScoringProfileVersion = {
+  effectiveFrom?: DayISO; // 未指定 = 最初から
+  profile: ScoringProfile;
+};
+
+// アプリ全体の設定
+export type AppSettings = {
+  dayStartMinutes: number; // 1日の始まり（0:00からの分 / 例：240 = 4:00）
+  lateEditDays: number;    // この日数より後に過去の日を変えたら「後から編集」の印を付ける
+};
@@ -0,0 +1,236 @@
+// src/infra/backup.ts
+import type {
+  AdHocTask,
+  DayISO,
+  DayLog,
+  DayLogMap,
+  DayPlan,
+  PlanTarget,
+  Recurrence,
+  ScoringProfileVersion,
+  Task,
+} from "../domain/types";
+import { mergeDayLogMaps, mergeTasks, type MergeStrategy } from "../domain/merge";
+import type { DataRepository } from "./repository";
+import { loadScoringProfiles, saveScoringProfiles, type MonthISO } from "./storage";
+import { DAY_RE, isObject, isOptional, isScoringProfileVersion } from "./validate";
+
+const APP_ID = "daily-score-todo";
+
+// 形式を変えたら上げる（読み込みは「これ以下」なら受け付ける）
+export const BACKUP_SCHEMA_VERSION = 1;
+
+export type BackupFile = {
+  app: typeof APP_ID;
+  schemaVersion: number;
+  exportedAt: number; // ms
+  tasks: Task[];
+  dayLogs: Record<MonthISO, DayLogMap>; // 保存形式と同じ月バケツ
+  scoringProfiles?: ScoringProfileVersion[]; // スコア設定（古いファイルには無い）
+};
+
+export type ParseResult = { ok: true; data: BackupFile } | { ok: false; error: string };
+
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+const isString = (x: unknown) => typeof x === "string";
+const isNumber = (x: unknown) => typeof x === "number";
+const isBoolean = (x: unknown) => typeof x === "boolean";
+const isDay = (x: unknown) => typeof x === "string" && DAY_RE.test(x);
+
+function isRecurrence(v: unknown): v is Recurrence {
+  if (!isObject(v)) return false;
+  switch (v.kind) {
+    case "daily":
+      return true;
+    case "weekdays":
+      return Array.isArray(v.days) && v.days.every(isNumber);
+    case "interval":
+      return isNumber(v.every) && isDay(v.start);
+    case "range":
+      return isOptional(v.from, isDay) && isOptional(v.to, isDay);
+    default:
+      return false;
+  }
+}
+
+function isTask(v: unknown): v is Task {
+  return (
+    isObject(v) &&
+    typeof v.id === "string" &&
+    typeof v.title === "string" &&
+    typeof v.points === "number" &&
+    typeof v.isCore === "boolean" &&
+    typeof v.isActive === "boolean" &&
+    isOptional(v.recurrence, isRecurrence) &&
+    isOptional(v.category, isString) &&
+    isOptional(v.tags, (x) => Array.isArray(x) && x.every(isString)) &&
+    isOptional(v.weeklyTarget, isNumber) &&
+    isOptional(v.unit, isString) &&
+    isOptional(v.target, isNumber) &&
+    isOptional(v.minRatio, isNumber) &&
+    isOptional(v.updatedAt, isNumber) &&
+    isOptional(v.archivedAt, isNumber)
+  );
+}
+
+function isTaskList(v: unknown): v is Task[] {
+  return Array.isArray(v) && v.every(isTask);
+}
+
+function isAdHocTaskList(v: unknown): v is AdHocTask[] {
+  return (
+    Array.isArray(v) &&
+    v.every((t) => isObject(t) && isOptional(t.carriedFrom, isDay) && isOptional(t.carriedTo, isDay) && isTask(t))
+  );
+}
+
+function isIdList(v: unknown): boolean {
+  return Array.isArray(v) && v.every(isString);
+}
+
+function isChecks(v: unknown): v is DayLog["checks"] {
+  return isObject(v) && Object.values(v).every((x) => typeof x === "boolean" || typeof x === "number");
+}
+
+function isPlanTarget(v: unknown): v is PlanTarget {
+  return (
+    isObject(v) &&
+    ((v.kind === "rank" && typeof v.rank === "string") || (v.kind === "score" && typeof v.score === "number"))
+  );
+}
+
+function isDayPlan(v: unknown): v is DayPlan {
+  return (
+    isObject(v) &&
+    isOptional(v.skip, isIdList) &&
+    isOptional(v.add, isIdList) &&
+    isOptional(v.restDay, isBoolean) &&
+    isOptional(v.target, isPlanTarget)
+  );
+}
+
+// 読み込んだ後にそのまま画面・集計で使うので、中身の型まで確かめる
+function isDayLog(v: unknown, date: string): v is DayLog {
+  return (
+    isObject(v) &&
+    v.date === date &&
+    isChecks(v.checks) &&
+    isOptional(v.note, isString) &&
+    isOptional(v.excludeFromStats, isBoolean) &&
+    isOptional(v.excludeReason, isString) &&
+    isOptional(v.taskSnapshot, isTaskList) &&
+    isOptional(v.adHocTasks, isAdHocTaskList) &&
+    isOptional(v.plan, isDayPlan) &&
+    isOptional(v.createdAt, isNumber) &&
+    isOptional(v.updatedAt, isNumber)
+  );
+}
+
+export async function buildBackup(repo: DataRepository): Promise<BackupFile> {
+  const dayLogs: Record<MonthISO, DayLogMap> = {};
+  for (const m of await repo.listAvailableMonths()) {
+    dayLogs[m] = await repo.loadDayLogMapForMonth(m);
+  }
+
+  return {
+    app: APP_ID,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    tasks: await repo.loadTasks(),
+    dayLogs,
+    scoringProfiles: loadScoringProfiles(),
+  };
+}
+
+export function backupFileName(data: BackupFile): string {
+  const d = new Date(data.exportedAt);
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `daily-score-backup_${y}-${m}-${dd}.json`;
+}
+
+// 壊れたファイル・別アプリのファイルを取り込まないように、形を一通り確認する
+export function parseBackup(text: string): ParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "JSONとして読み込めませんでした。" };
+  }
+
+  if (!isObject(raw) || raw.app !== APP_ID) {
+    return { ok: false, error: "このアプリのバックアップファイルではありません。" };
+  }
+  if (typeof raw.schemaVersion !== "number" || raw.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    return { ok: false, error: "対応していないバージョンのバックアップです。アプリを更新してください。" };
+  }
+  if (!isTaskList(raw.tasks)) {
+    return { ok: false, error: "タスクの形式が正しくありません。" };
+  }
+  if (!isObject(raw.dayLogs)) {
+    return { ok: false, error: "記録の形式が正しくありません。" };
+  }
+
+  if (!isOptional(raw.scoringProfiles, (x) => Array.isArray(x) && x.every(isScoringProfileVersion))) {
+    return { ok: false, error: "スコア設定の形式が正しくありません。" };
+  }
+
+  for (const [month, map] of Object.entries(raw.dayLogs)) {
+    if (!MONTH_RE.test(month) || !isObject(map)) {
+      return { ok: false, error: `月データ「${month}」の形式が正しくありません。` };
+    }
+    for (const [date, log] of Object.entries(map)) {
+      if (!DAY_RE.test(date) || !date.startsWith(month) || !isDayLog(log, date)) {
+        return { ok: false, error: `${date} の記録の形式が正しくありません。` };
+      }
+    }
+  }
+
+  return {
+    ok: true,
+    data: {
+      app: APP_ID,
+      schemaVersion: raw.schemaVersion,
+      exportedAt: typeof raw.exportedAt === "number" ? raw.exportedAt : 0,
+      tasks: raw.tasks,
+      dayLogs: raw.dayLogs as Record<MonthISO, DayLogMap>,
+      scoringProfiles: raw.scoringProfiles as ScoringProfileVersion[] | undefined,
+    },
+  };
+}
+
+// 月バケツを1つのマップに平らにする
+export function flattenDayLogs(dayLogs: Record<MonthISO, DayLogMap>): DayLogMap {
+  const out: DayLogMap = {};
+  for (const map of Object.values(dayLogs)) {
+    for (const [d, log] of Object.entries(map) as Array<[DayISO, DayLog]>) {
+      out[d] = log;
+    }
+  }
+  return out;
+}
+
+// 保存先経由で書き込む（timestampはファイルのものを保つ）
+export async function applyBackup(
+  repo: DataRepository,
+  data: BackupFile,
+  strategy: MergeStrategy
+): Promise<void> {
+  const tasks = mergeTasks(await repo.loadTasks(), data.tasks, strategy);
+  const logs = mergeDayLogMaps(await repo.loadDayLogMap(), flattenDayLogs(data.dayLogs), strategy);
+
+  await repo.saveTasks(tasks);
+
+  // スコア設定は日単位でマージできないので、置き換え時 or 今は未設定のときだけ取り込む
+  if (data.scoringProfiles && (strategy === "replace" || loadScoringProfiles().length === 0)) {
+    saveScoringProfiles(data.scoringProfiles);
+  }
+
+  if (strategy === "replace") {
+    await repo.replaceAllDayLogs(logs);
+  } else {
+    await repo.saveDayLogMap(logs);
+  }
+}
@@ -0,0 +1,40 @@
+// src/infra/changes.ts
+
+// --- 変更通知（画面側はこれを購読して読み込み直す） ---
+// months = 記録が変わった月（"YYYY-MM"）。空配列 = 記録は変わっていない / undefined = どこが変わったか分からない
+type Listener = (months?: string[]) => void;
+
+const listeners = new Set<Listener>();
+let version = 0;
+
+// 別タブ・別ウィンドウへの通知（IndexedDB は storage イベントが飛ばないため）
+const CHANNEL_NAME = "daily-score-todo";
+const channel = typeof BroadcastChannel !== "undefined" ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export function subscribeChanges(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// 書き込みのたびに増える（useSyncExternalStore のスナップショット用）
+export function getChangeVersion(): number {
+  return version;
+}
+
+// このタブの中だけに知らせる
+export function notifyChange(months?: string[]): void {
+  version++;
+  for (const l of listeners) l(months);
+}
+
+// このタブ + 別タブに知らせる
+export function broadcastChange(months?: string[]): void {
+  notifyChange(months);
+  channel?.postMessage({ months });
+}
+
+channel?.addEventListener("message", (e: MessageEvent<{ months?: string[] } | null>) =>
+  notifyChange(Array.isArray(e.data?.months) ? e.data.months : undefined)
+);
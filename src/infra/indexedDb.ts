@@ -0,0 +1,275 @@
+// src/infra/indexedDb.ts
+import type { AuditLogMap, DayISO, DayLog, DayLogMap, Task } from "../domain/types";
+import { diffForAudit } from "../domain/audit";
+import { broadcastChange } from "./changes";
+import type { BaseRepository } from "./repository";
+import * as storage from "./storage";
+import type { DayLogChanges, MonthISO } from "./storage";
+import { todayKey } from "../utils/date";
+
+const DB_NAME = "daily-score-todo";
+const DB_VERSION = 2; // 2: 変更履歴（audit）を追加
+
+const STORES = {
+  meta: "meta", // key-value（tasks など）
+  dayLogs: "dayLogs", // keyPath = date（"YYYY-MM-DD" なので範囲で月を引ける）
+  audit: "audit", // key = "YYYY-MM"、値は その月の AuditLogMap（記録と同じ月バケツ）
+} as const;
+
+const META_KEYS = {
+  tasks: "tasks",
+  migrated: "migratedFromLocalStorage",
+} as const;
+
+// --- IDBRequest / IDBTransaction を Promise にする ---
+function req<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("transaction aborted"));
+  });
+}
+
+function monthRange(month: MonthISO): IDBKeyRange {
+  return IDBKeyRange.bound(`${month}-01`, `${month}-31`);
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.meta)) {
+        db.createObjectStore(STORES.meta);
+      }
+      if (!db.objectStoreNames.contains(STORES.dayLogs)) {
+        db.createObjectStore(STORES.dayLogs, { keyPath: "date" });
+      }
+      if (!db.objectStoreNames.contains(STORES.audit)) {
+        db.createObjectStore(STORES.audit);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    // 古いバージョンを開いている別タブが閉じるまで待つ（そのタブは onversionchange で閉じる）
+    request.onblocked = () => console.warn("IndexedDB のバージョン更新を待っています");
+  });
+}
+
+/**
+ * 初回だけ localStorage の内容を IndexedDB へコピーする
+ * - localStorage 側の移行（v1→v2、スナップショット付与）は loadDayLogMap() の中で済む
+ * - 元データは消さない（戻したくなったとき・古いタブ用に残す）
+ */
+async function migrateFromLocalStorageIfNeeded(db: IDBDatabase): Promise<void> {
+  const check = db.transaction(STORES.meta, "readonly");
+  const migrated = await req(check.objectStore(STORES.meta).get(META_KEYS.migrated));
+  if (migrated) return;
+
+  const tasks = storage.loadTasks();
+  const logs = storage.loadDayLogMap();
+  const auditMonths = storage.listAuditMonths();
+
+  const tx = db.transaction([STORES.meta, STORES.dayLogs, STORES.audit], "readwrite");
+  const meta = tx.objectStore(STORES.meta);
+  const dayLogs = tx.objectStore(STORES.dayLogs);
+  const audit = tx.objectStore(STORES.audit);
+
+  // 別タブが先に移行していたら何もしない（同じトランザクション内で確認する）
+  if (!(await req(meta.get(META_KEYS.migrated)))) {
+    meta.put(tasks, META_KEYS.tasks);
+    for (const log of Object.values(logs)) dayLogs.put(log);
+    // localStorage で使っていた間の変更履歴も引き継ぐ
+    for (const month of auditMonths) audit.put(storage.loadAuditMonth(month), month);
+    meta.put(Date.now(), META_KEYS.migrated);
+  }
+  await done(tx);
+}
+
+// 変更履歴を同じトランザクションで追記する（1件ずつの保存のときだけ）
+async function recordAudit(
+  tx: IDBTransaction,
+  date: DayISO,
+  prev: DayLog | undefined,
+  next: DayLog | undefined
+): Promise<void> {
+  const added = diffForAudit(prev, next, Date.now());
+  if (added.length === 0) return;
+
+  const store = tx.objectStore(STORES.audit);
+  const month = date.slice(0, 7);
+  const map = (await req<AuditLogMap | undefined>(store.get(month))) ?? {};
+  map[date] = [...(map[date] ?? []), ...added];
+  store.put(map, month);
+}
+
+function createIndexedDbRepository(db: IDBDatabase): BaseRepository {
+  async function loadTasks(): Promise<Task[]> {
+    const tx = db.transaction(STORES.meta, "readonly");
+    const data = await req<Task[] | undefined>(tx.objectStore(STORES.meta).get(META_KEYS.tasks));
+    const { tasks, changed } = storage.normalizeTasks(Array.isArray(data) ? data : []);
+
+    if (changed) {
+      const w = db.transaction(STORES.meta, "readwrite");
+      w.objectStore(STORES.meta).put(tasks, META_KEYS.tasks);
+      await done(w);
+    }
+    return tasks;
+  }
+
+  async function saveTasks(tasks: Task[]): Promise<void> {
+    const tx = db.transaction([STORES.meta, STORES.dayLogs], "readwrite");
+    tx.objectStore(STORES.meta).put(tasks, META_KEYS.tasks);
+
+    // 今日の記録があれば、今日のスナップショットも最新の定義に揃える（過去日は凍結のまま）
+    const logs = tx.objectStore(STORES.dayLogs);
+    const today = await req<DayLog | undefined>(logs.get(todayKey()));
+    if (today) logs.put({ ...today, taskSnapshot: tasks });
+
+    await done(tx);
+    broadcastChange([todayKey().slice(0, 7)]);
+  }
+
+  async function getDayLog(date: DayISO): Promise<DayLog> {
+    const tx = db.transaction(STORES.dayLogs, "readonly");
+    const log = await req<DayLog | undefined>(tx.objectStore(STORES.dayLogs).get(date));
+    return log ?? storage.emptyDayLog(date);
+  }
+
+  // 読み込み → 変更 → 書き込みを1トランザクションで行う（別タブとの競合で巻き戻さない）
+  // 何日分でも1トランザクション・通知1回。removeIfEmpty = false なら空でもそのまま保存する（upsert 用）
+  async function writeDayLogs(
+    dates: DayISO[],
+    update: (current: DayLog) => DayLog,
+    removeIfEmpty: boolean
+  ): Promise<DayLogChanges> {
+    const tx = db.transaction([STORES.meta, STORES.dayLogs, STORES.audit], "readwrite");
+    const logs = tx.objectStore(STORES.dayLogs);
+    const tasks = await req<Task[] | undefined>(tx.objectStore(STORES.meta).get(META_KEYS.tasks));
+    const changes: DayLogChanges = { before: {}, after: {} };
+
+    for (const date of dates) {
+      const prev = await req<DayLog | undefined>(logs.get(date));
+      const next = update(prev ?? storage.emptyDayLog(date));
+      let saved: DayLog | undefined;
+      if (removeIfEmpty && storage.isEmptyDayLog(next)) {
+        if (prev) logs.delete(date);
+      } else {
+        saved = storage.stampDayLog(next, prev, () => tasks ?? []);
+        logs.put(saved);
+      }
+      await recordAudit(tx, date, prev, saved);
+
+      changes.before[date] = prev ?? storage.emptyDayLog(date);
+      changes.after[date] = saved ?? storage.emptyDayLog(date);
+    }
+
+    await done(tx);
+    broadcastChange([...new Set(dates.map((d) => d.slice(0, 7)))]);
+    return changes;
+  }
+
+  async function writeDayLog(
+    date: DayISO,
+    update: (current: DayLog) => DayLog,
+    removeIfEmpty: boolean
+  ): Promise<void> {
+    await writeDayLogs([date], update, removeIfEmpty);
+  }
+
+  async function deleteDayLog(date: DayISO): Promise<void> {
+    const tx = db.transaction([STORES.dayLogs, STORES.audit], "readwrite");
+    const logs = tx.objectStore(STORES.dayLogs);
+    const prev = await req<DayLog | undefined>(logs.get(date));
+    if (prev) {
+      logs.delete(date);
+      await recordAudit(tx, date, prev, undefined);
+    }
+    await done(tx);
+    broadcastChange([date.slice(0, 7)]);
+  }
+
+  async function loadAuditMonth(month: MonthISO): Promise<AuditLogMap> {
+    const tx = db.transaction(STORES.audit, "readonly");
+    return (await req<AuditLogMap | undefined>(tx.objectStore(STORES.audit).get(month))) ?? {};
+  }
+
+  async function listAvailableMonths(): Promise<MonthISO[]> {
+    const tx = db.transaction(STORES.dayLogs, "readonly");
+    const keys = await req(tx.objectStore(STORES.dayLogs).getAllKeys());
+    const months = new Set(keys.map((k) => String(k).slice(0, 7) as MonthISO));
+    // 文字列で降順ソート（YYYY-MMなのでこれでOK）
+    return [...months].sort((a, b) => (a < b ? 1 : a > b ? -1 : 0));
+  }
+
+  async function loadDayLogMapForMonth(month: MonthISO): Promise<DayLogMap> {
+    const tx = db.transaction(STORES.dayLogs, "readonly");
+    const logs = await req<DayLog[]>(tx.objectStore(STORES.dayLogs).getAll(monthRange(month)));
+    return Object.fromEntries(logs.map((l) => [l.date, l])) as DayLogMap;
+  }
+
+  async function loadDayLogMap(): Promise<DayLogMap> {
+    const tx = db.transaction(STORES.dayLogs, "readonly");
+    const logs = await req<DayLog[]>(tx.objectStore(STORES.dayLogs).getAll());
+    return Object.fromEntries(logs.map((l) => [l.date, l])) as DayLogMap;
+  }
+
+  // localStorage 版と同じく、渡された日を含む月は丸ごと置き換える
+  async function saveDayLogMap(map: DayLogMap): Promise<void> {
+    const tx = db.transaction(STORES.dayLogs, "readwrite");
+    const logs = tx.objectStore(STORES.dayLogs);
+
+    const months = new Set(Object.keys(map).map((d) => d.slice(0, 7) as MonthISO));
+    for (const m of months) logs.delete(monthRange(m));
+    for (const log of Object.values(map)) logs.put(log);
+
+    await done(tx);
+    broadcastChange([...months]);
+  }
+
+  async function replaceAllDayLogs(map: DayLogMap): Promise<void> {
+    const tx = db.transaction(STORES.dayLogs, "readwrite");
+    const logs = tx.objectStore(STORES.dayLogs);
+
+    logs.clear();
+    for (const log of Object.values(map)) logs.put(log);
+
+    await done(tx);
+    broadcastChange();
+  }
+
+  return {
+    kind: "indexedDB",
+    loadTasks,
+    saveTasks,
+    getDayLog,
+    upsertDayLog: (log) => writeDayLog(log.date, () => log, false),
+    updateDayLog: (date, update) => writeDayLog(date, update, true),
+    updateDayLogs: (dates, update) => writeDayLogs(dates, update, true),
+    deleteDayLog,
+    listAvailableMonths,
+    loadDayLogMapForMonth,
+    loadDayLogMap,
+    loadAuditMonth,
+    saveDayLogMap,
+    replaceAllDayLogs,
+  };
+}
+
+// 開けなければ reject（呼び出し側で localStorage に切り替える）
+export async function openIndexedDbRepository(): Promise<BaseRepository> {
+  const db = await openDb();
+
+  // 新しいバージョンの DB を別タブが開こうとしたら閉じて譲る
+  db.onversionchange = () => db.close();
+
+  await migrateFromLocalStorageIfNeeded(db);
+  return createIndexedDbRepository(db);
+}
@@ -0,0 +1,168 @@
+// src/infra/repository.ts
+import type { AuditLogMap, DayISO, DayLog, DayLogMap, Task } from "../domain/types";
+import { subscribeChanges } from "./changes";
+import { openIndexedDbRepository } from "./indexedDb";
+import * as storage from "./storage";
+import type { DayLogChanges, MonthISO } from "./storage";
+import { monthsBetween } from "../utils/date";
+
+/**
+ * タスク・日々の記録の保存先
+ * - 通常は IndexedDB、使えない環境（プライベートモード等）では localStorage
+ * - スコア設定は小さいので、どちらの場合も localStorage に置く
+ * - 書き込みのたびに changes.ts 経由で通知される
+ */
+export interface DataRepository {
+  readonly kind: "indexedDB" | "localStorage";
+
+  loadTasks(): Promise<Task[]>;
+  saveTasks(tasks: Task[]): Promise<void>;
+
+  getDayLog(date: DayISO): Promise<DayLog>;
+  upsertDayLog(log: DayLog): Promise<void>;
+  updateDayLog(date: DayISO, update: (current: DayLog) => DayLog): Promise<void>;
+  // 複数の日をまとめて変更する（1回の書き込み・1回の通知）。変更前後の内容を返す
+  updateDayLogs(dates: DayISO[], update: (current: DayLog) => DayLog): Promise<DayLogChanges>;
+  deleteDayLog(date: DayISO): Promise<void>;
+
+  listAvailableMonths(): Promise<MonthISO[]>;
+  loadDayLogMapForMonth(month: MonthISO): Promise<DayLogMap>;
+  loadDayLogRange(from: DayISO, to: DayISO): Promise<DayLogMap>; // 両端を含む
+  loadDayLogMap(): Promise<DayLogMap>;
+  saveDayLogMap(map: DayLogMap): Promise<void>;
+  replaceAllDayLogs(map: DayLogMap): Promise<void>;
+
+  // 変更履歴（1件ずつの保存・削除のたびに自動で追記される）
+  loadAuditMonth(month: MonthISO): Promise<AuditLogMap>;
+  loadAuditRange(from: DayISO, to: DayISO): Promise<AuditLogMap>; // 両端を含む
+}
+
+// 月単位の読み込み・期間の読み込みはキャッシュ経由にする（下の withMonthCache で差し込む）
+export type BaseRepository = Omit<DataRepository, "loadDayLogRange" | "loadAuditRange">;
+
+// storage.ts（同期API）をそのまま包む
+export function createLocalStorageRepository(): BaseRepository {
+  return {
+    kind: "localStorage",
+    loadTasks: async () => storage.loadTasks(),
+    saveTasks: async (tasks) => storage.saveTasks(tasks),
+    getDayLog: async (date) => storage.getDayLog(date),
+    upsertDayLog: async (log) => storage.upsertDayLog(log),
+    updateDayLog: async (date, update) => storage.updateDayLog(date, update),
+    updateDayLogs: async (dates, update) => storage.updateDayLogs(dates, update),
+    deleteDayLog: async (date) => storage.deleteDayLog(date),
+    listAvailableMonths: async () => storage.listAvailableMonths(),
+    loadDayLogMapForMonth: async (month) => storage.loadDayLogMapForMonth(month),
+    loadDayLogMap: async () => storage.loadDayLogMap(),
+    saveDayLogMap: async (map) => storage.saveDayLogMap(map),
+    replaceAllDayLogs: async (map) => storage.replaceAllDayLogs(map),
+    loadAuditMonth: async (month) => storage.loadAuditMonth(month),
+  };
+}
+
+/**
+ * 月バケツのメモリキャッシュ
+ * - 期間の読み込みは重なる月だけを読む / 全期間も月ごとにキャッシュから組み立てる
+ * - 書き込みがあったら（別タブ含む）その月だけ捨てる。どの月か分からない通知なら丸ごと捨てる
+ * - 読み込み中にその月へ書き込みが挟まったら、その結果はキャッシュしない
+ */
+export function withMonthCache(base: BaseRepository): DataRepository {
+  const cache = new Map<MonthISO, DayLogMap>();
+  const generation = new Map<MonthISO, number>(); // 月ごとの書き込み回数
+  let allGeneration = 0; // どの月か分からない書き込みの回数
+  let months: MonthISO[] | null = null;
+
+  subscribeChanges((changed) => {
+    if (!changed) {
+      allGeneration++;
+      cache.clear();
+      months = null;
+      return;
+    }
+    for (const m of changed as MonthISO[]) {
+      generation.set(m, (generation.get(m) ?? 0) + 1);
+      cache.delete(m);
+    }
+    if (changed.length > 0) months = null; // 記録のある月が増減したかもしれない
+  });
+
+  const stamp = (month: MonthISO) => `${allGeneration}:${generation.get(month) ?? 0}`;
+
+  async function loadMonth(month: MonthISO): Promise<DayLogMap> {
+    const hit = cache.get(month);
+    if (hit) return hit;
+
+    const startedAt = stamp(month);
+    const map = await base.loadDayLogMapForMonth(month);
+    if (startedAt === stamp(month)) cache.set(month, map);
+    return map;
+  }
+
+  async function listAvailableMonths(): Promise<MonthISO[]> {
+    if (months) return months;
+
+    const startedAt = allGeneration;
+    const list = await base.listAvailableMonths();
+    if (startedAt === allGeneration) months = list;
+    return list;
+  }
+
+  function mergeMonths(maps: DayLogMap[], from?: DayISO, to?: DayISO): DayLogMap {
+    const out: DayLogMap = {};
+    for (const map of maps) {
+      for (const [d, log] of Object.entries(map) as Array<[DayISO, DayLog]>) {
+        if ((!from || d >= from) && (!to || d <= to)) out[d] = log;
+      }
+    }
+    return out;
+  }
+
+  async function loadDayLogRange(from: DayISO, to: DayISO): Promise<DayLogMap> {
+    const maps = await Promise.all(monthsBetween(from, to).map((m) => loadMonth(m as MonthISO)));
+    return mergeMonths(maps, from, to);
+  }
+
+  // 全期間（集計用）。書き込みのあった月だけ読み直す
+  async function loadDayLogMap(): Promise<DayLogMap> {
+    const maps = await Promise.all((await listAvailableMonths()).map(loadMonth));
+    return mergeMonths(maps);
+  }
+
+  // 変更履歴は表示するときだけ読むのでキャッシュしない
+  async function loadAuditRange(from: DayISO, to: DayISO): Promise<AuditLogMap> {
+    const maps = await Promise.all(monthsBetween(from, to).map((m) => base.loadAuditMonth(m as MonthISO)));
+
+    const out: AuditLogMap = {};
+    for (const map of maps) {
+      for (const [d, entries] of Object.entries(map) as Array<[DayISO, AuditLogMap[DayISO]]>) {
+        if (d >= from && d <= to) out[d] = entries;
+      }
+    }
+    return out;
+  }
+
+  return {
+    ...base,
+    listAvailableMonths,
+    loadDayLogMapForMonth: loadMonth,
+    loadDayLogRange,
+    loadDayLogMap,
+    loadAuditRange,
+  };
+}
+
+let opening: Promise<DataRepository> | null = null;
+
+// アプリ全体で1つ（何度呼んでも同じものを返す）
+export function openRepository(): Promise<DataRepository> {
+  opening ??= (async () => {
+    if (typeof indexedDB === "undefined") return withMonthCache(createLocalStorageRepository());
+    try {
+      return withMonthCache(await openIndexedDbRepository());
+    } catch (e) {
+      console.warn("IndexedDB を開けないため localStorage を使います", e);
+      return withMonthCache(createLocalStorageRepository());
+    }
+  })();
+  return opening;
+}
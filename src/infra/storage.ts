@@ -1,16 +1,33 @@
 // src/infra/storage.ts
-import type { DayISO, DayLog, Task } from "../domain/types";
+import type {
+  AppSettings,
+  AuditEntry,
+  AuditLogMap,
+  DayISO,
+  DayLog,
+  DayLogMap,
+  ScoringProfileVersion,
+  Task,
+} from "../domain/types";
+import { diffForAudit } from "../domain/audit";
+import { isEmptyPlan } from "../domain/plan";
+import { notifyChange } from "./changes";
+import { todayKey } from "../utils/date";
+import { setDayBoundary } from "../utils/clock";
+import { isScoringProfileVersion } from "./validate";
 
 const KEYS = {
   tasks: "tasks_v1",
+  scoringProfiles: "scoring_profiles_v1", // スコア設定の版（いつから有効か付き）
+  appSettings: "app_settings_v1",
   dayLogsV1: "daylogs_v1", // 旧： { [date]: DayLog }
   dayLogsV1Backup: "daylogs_v1_backup", // 移行後の保険
 } as const;
 
 const V2_PREFIX = "daylogs_v2_"; // 新： daylogs_v2_YYYY-MM
+const AUDIT_PREFIX = "auditlog_v1_"; // 変更履歴： auditlog_v1_YYYY-MM（記録と同じ月バケツ）
 
-type DayLogMap = Record<DayISO, DayLog>;
-type MonthISO = `${number}-${string}`; // "YYYY-MM"（厳密型にしすぎると扱いづらいので緩め）
+export type MonthISO = `${number}-${string}`; // "YYYY-MM"（厳密型にしすぎると扱いづらいので緩め）
 
 // JSON.parse は壊れたデータで落ちるので、落ちない版を作る
 function safeJsonParse<T>(raw: string | null): T | null {
@@ -90,12 +107,38 @@ function migrateV1ToV2IfNeeded(): void {
   localStorage.removeItem(KEYS.dayLogsV1);
 }
 
+// スナップショットの無いログに「移行時点のタスク定義」を入れる（ベストエフォート）
+let snapshotMigratedOnce = false;
+function migrateTaskSnapshotsIfNeeded(): void {
+  if (snapshotMigratedOnce) return;
+  snapshotMigratedOnce = true;
+
+  let current: Task[] | null = null;
+
+  for (const month of listV2Months()) {
+    const map = loadMonthMap(month);
+    let changed = false;
+
+    for (const [date, log] of Object.entries(map) as Array<[DayISO, DayLog]>) {
+      if (log.taskSnapshot) continue;
+      current ??= loadTasks();
+      map[date] = { ...log, taskSnapshot: current };
+      changed = true;
+    }
+
+    if (changed) saveMonthMap(month, map);
+  }
+}
+
+function migrateIfNeeded(): void {
+  migrateV1ToV2IfNeeded();
+  migrateTaskSnapshotsIfNeeded();
+}
+
 // --- Tasks ---
-export function loadTasks(): Task[] {
-  const data = safeJsonParse<Task[]>(localStorage.getItem(KEYS.tasks));
-  const tasks = Array.isArray(data) ? data : [];
 
-  // --- 正規化 ---
+// 保存済みタスクの正規化（どの保存先でも同じルール）
+export function normalizeTasks(tasks: Task[]): { tasks: Task[]; changed: boolean } {
   let changed = false;
 
   // 1) points を整数・1〜10に固定（最重要は0固定）
@@ -131,21 +174,71 @@ export function loadTasks(): Task[] {
     return t;
   });
 
+  return { tasks: limited, changed };
+}
+
+export function loadTasks(): Task[] {
+  const data = safeJsonParse<Task[]>(localStorage.getItem(KEYS.tasks));
+  const { tasks, changed } = normalizeTasks(Array.isArray(data) ? data : []);
+
   if (changed) {
-    localStorage.setItem(KEYS.tasks, JSON.stringify(limited));
+    localStorage.setItem(KEYS.tasks, JSON.stringify(tasks));
   }
 
-  return limited;
+  return tasks;
 }
 
-
 export function saveTasks(tasks: Task[]): void {
   localStorage.setItem(KEYS.tasks, JSON.stringify(tasks));
+
+  // 今日の記録があれば、今日のスナップショットも最新の定義に揃える（過去日は凍結のまま）
+  const today = todayKey() as DayISO;
+  const month = toMonthISO(today);
+  const map = loadMonthMap(month);
+  if (map[today]) {
+    map[today] = { ...map[today], taskSnapshot: tasks };
+    saveMonthMap(month, map);
+  }
+
+  notifyChange([month]);
+}
+
+// --- Scoring profiles ---
+export function loadScoringProfiles(): ScoringProfileVersion[] {
+  const data = safeJsonParse<unknown>(localStorage.getItem(KEYS.scoringProfiles));
+  // 壊れた版は使わない（ランク計算で落ちないように）
+  return Array.isArray(data) ? data.filter(isScoringProfileVersion) : [];
+}
+
+export function saveScoringProfiles(versions: ScoringProfileVersion[]): void {
+  localStorage.setItem(KEYS.scoringProfiles, JSON.stringify(versions));
+  notifyChange([]);
+}
+
+// --- App settings ---
+export const DEFAULT_APP_SETTINGS: AppSettings = { dayStartMinutes: 0, lateEditDays: 2 };
+
+export function loadAppSettings(): AppSettings {
+  const data = safeJsonParse<Partial<AppSettings>>(localStorage.getItem(KEYS.appSettings));
+  const minutes = Number(data?.dayStartMinutes);
+  const lateDays = Number(data?.lateEditDays);
+  return {
+    // 区切りは 0:00〜23:59 の範囲
+    dayStartMinutes: isFinite(minutes) ? Math.min(1439, Math.max(0, Math.round(minutes))) : 0,
+    lateEditDays: isFinite(lateDays) && lateDays >= 0 ? Math.round(lateDays) : DEFAULT_APP_SETTINGS.lateEditDays,
+  };
+}
+
+// 保存と同時に「今日」の計算にも反映する
+export function saveAppSettings(settings: AppSettings): void {
+  localStorage.setItem(KEYS.appSettings, JSON.stringify(settings));
+  setDayBoundary(settings.dayStartMinutes);
+  notifyChange([]);
 }
 
 // --- DayLogs (互換API：全期間マップとしてロード) ---
 export function loadDayLogMap(): DayLogMap {
-  migrateV1ToV2IfNeeded();
+  migrateIfNeeded();
 
   const months = listV2Months();
   const merged: DayLogMap = {};
@@ -159,10 +252,8 @@ export function loadDayLogMap(): DayLogMap {
   return merged;
 }
 
-// 互換API：全期間マップを渡されたら、月ごとに保存し直す
-export function saveDayLogMap(map: DayLogMap): void {
-  migrateV1ToV2IfNeeded();
-
+// 渡された日を月ごとに分けて、その月のバケツを置き換える（書いた月を返す）
+function writeMonthBuckets(map: DayLogMap): MonthISO[] {
   const bucket: Record<string, DayLogMap> = {};
   for (const [date, log] of Object.entries(map) as Array<[DayISO, DayLog]>) {
     const month = toMonthISO(date);
@@ -170,66 +261,331 @@ export function saveDayLogMap(map: DayLogMap): void {
     bucket[month][date] = log;
   }
 
-  // 今あるv2キーも考慮しつつ上書き保存（該当月だけ）
   for (const [month, mm] of Object.entries(bucket) as Array<[MonthISO, DayLogMap]>) {
     saveMonthMap(month, mm);
   }
+  return Object.keys(bucket) as MonthISO[];
+}
+
+// 互換API：全期間マップを渡されたら、月ごとに保存し直す（該当月だけ）
+export function saveDayLogMap(map: DayLogMap): void {
+  migrateIfNeeded();
+  notifyChange(writeMonthBuckets(map));
+}
+
+// 全期間を丸ごと置き換える（バックアップの「置き換え」取り込み用）
+export function replaceAllDayLogs(map: DayLogMap): void {
+  migrateIfNeeded();
+
+  for (const m of listV2Months()) {
+    localStorage.removeItem(v2Key(m));
+  }
+  writeMonthBuckets(map);
+  notifyChange(); // 消した月もあるので全部読み直す
 }
 
 // ★追加：月の一覧（Historyのセレクト用）
 export function listAvailableMonths(): MonthISO[] {
-  migrateV1ToV2IfNeeded();
+  migrateIfNeeded();
   return listV2Months();
 }
 
 // ★追加：特定月のデータだけ取得
 export function loadDayLogMapForMonth(month: MonthISO): DayLogMap {
-  migrateV1ToV2IfNeeded();
+  migrateIfNeeded();
   return loadMonthMap(month);
 }
 
+// 記録の無い日の初期値
+export function emptyDayLog(date: DayISO): DayLog {
+  return {
+    date,
+    checks: {},
+    note: "",
+    excludeFromStats: false, // ★デフォルトは除外しない
+  };
+}
+
 export function getDayLog(date: DayISO): DayLog {
-  migrateV1ToV2IfNeeded();
+  migrateIfNeeded();
 
   const month = toMonthISO(date);
   const map = loadMonthMap(month);
 
-  return (
-    map[date] ?? {
-      date,
-      checks: {},
-      note: "",
-      excludeFromStats: false, // ★デフォルトは除外しない
-    }
-  );
+  return map[date] ?? emptyDayLog(date);
+}
+
+/**
+ * 保存する直前の記録に、スナップショットと時刻を付ける（どの保存先でも同じルール）
+ * - スナップショットは渡されなければ既存を維持、初回は現在のタスク定義で固定
+ * - updatedAt は新旧比較に使うので、前の値より必ず大きくする
+ */
+export function stampDayLog(log: DayLog, prev: DayLog | undefined, currentTasks: () => Task[]): DayLog {
+  const now = Date.now();
+  return {
+    ...log,
+    taskSnapshot: log.taskSnapshot ?? prev?.taskSnapshot ?? currentTasks(),
+    createdAt: prev?.createdAt ?? log.createdAt ?? now,
+    updatedAt: Math.max(now, (prev?.updatedAt ?? 0) + 1),
+  };
 }
 
 export function upsertDayLog(log: DayLog): void {
-  migrateV1ToV2IfNeeded();
+  migrateIfNeeded();
 
   const month = toMonthISO(log.date);
   const map = loadMonthMap(month);
 
   const prev = map[log.date];
-  const now = Date.now();
-
-  map[log.date] = {
-    ...log,
-    createdAt: prev?.createdAt ?? log.createdAt ?? now,
-    updatedAt: now,
-  };
+  const next = stampDayLog(log, prev, loadTasks);
+  map[log.date] = next;
 
   saveMonthMap(month, map);
+  recordAudit(log.date, prev, next);
+  ownWrites.set(log.date, next);
+  notifyChange([month]);
+}
+
+// チェック・メモ・除外・単発タスクのどれも無ければ「記録なし」と同じ
+export function isEmptyDayLog(log: DayLog): boolean {
+  if (log.excludeFromStats) return false;
+  if ((log.adHocTasks ?? []).length > 0) return false;
+  if (!isEmptyPlan(log.plan)) return false;
+  if ((log.note ?? "").trim().length > 0) return false;
+  return !Object.values(log.checks ?? {}).some(Boolean);
+}
+
+/**
+ * 最新の保存内容に変更を当てて保存する（空になったら削除）
+ * 画面が古い内容を持っていても、別タブで変わった他の項目を巻き戻さない
+ */
+export function updateDayLog(date: DayISO, update: (current: DayLog) => DayLog): void {
+  const next = update(getDayLog(date));
+  if (isEmptyDayLog(next)) {
+    deleteDayLog(date);
+  } else {
+    upsertDayLog(next);
+  }
+}
+
+// まとめて変更したときの変更前後（記録の無い日は空の記録）
+export type DayLogChanges = {
+  before: DayLogMap;
+  after: DayLogMap;
+};
+
+/**
+ * 複数の日をまとめて変更する（期間でまとめて除外するときなど）
+ * - 月バケツは月ごとに1回だけ読み書きし、通知も最後に1回だけ
+ * - 空になった日は削除する（updateDayLog と同じ）
+ */
+export function updateDayLogs(dates: DayISO[], update: (current: DayLog) => DayLog): DayLogChanges {
+  migrateIfNeeded();
+
+  const changes: DayLogChanges = { before: {}, after: {} };
+  const byMonth = new Map<MonthISO, DayISO[]>();
+  for (const d of dates) byMonth.set(toMonthISO(d), [...(byMonth.get(toMonthISO(d)) ?? []), d]);
+
+  let tasks: Task[] | null = null;
+  const currentTasks = () => (tasks ??= loadTasks());
+
+  for (const [month, days] of byMonth) {
+    const map = loadMonthMap(month);
+    const audit: Array<[DayISO, DayLog | undefined, DayLog | undefined]> = [];
+
+    for (const date of days) {
+      const prev = map[date];
+      const next = update(prev ?? emptyDayLog(date));
+      let saved: DayLog | undefined;
+      if (isEmptyDayLog(next)) {
+        delete map[date];
+      } else {
+        saved = stampDayLog(next, prev, currentTasks);
+        map[date] = saved;
+      }
+      ownWrites.set(date, saved ?? null);
+      audit.push([date, prev, saved]);
+
+      changes.before[date] = prev ?? emptyDayLog(date);
+      changes.after[date] = saved ?? emptyDayLog(date);
+    }
+
+    saveMonthMap(month, map);
+    recordAuditMonth(month, audit);
+  }
+
+  notifyChange([...byMonth.keys()]);
+  return changes;
 }
 
 export function deleteDayLog(date: DayISO): void {
-  migrateV1ToV2IfNeeded();
+  migrateIfNeeded();
 
   const month = toMonthISO(date);
   const map = loadMonthMap(month);
 
-  if (map[date]) {
+  const prev = map[date];
+  if (prev) {
     delete map[date];
     saveMonthMap(month, map);
+    recordAudit(date, prev, undefined);
+    ownWrites.set(date, null);
+    notifyChange([month]);
+  }
+}
+
+// --- 変更履歴（1日ごと・追記のみ） ---
+function auditKey(month: MonthISO): string {
+  return `${AUDIT_PREFIX}${month}`;
+}
+
+export function loadAuditMonth(month: MonthISO): AuditLogMap {
+  const data = safeJsonParse<AuditLogMap>(localStorage.getItem(auditKey(month)));
+  return data && typeof data === "object" ? data : {};
+}
+
+// 変更履歴のある月（IndexedDB への移行用）
+export function listAuditMonths(): MonthISO[] {
+  const months: MonthISO[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const k = localStorage.key(i);
+    if (k?.startsWith(AUDIT_PREFIX)) months.push(k.slice(AUDIT_PREFIX.length) as MonthISO);
+  }
+  return months.sort();
+}
+
+// 1日ずつの保存（upsert / delete / まとめて変更）のときだけ残す。バックアップの一括取り込みは対象外
+function recordAudit(date: DayISO, prev: DayLog | undefined, next: DayLog | undefined): void {
+  recordAuditMonth(toMonthISO(date), [[date, prev, next]]);
+}
+
+// 同じ月の変更をまとめて追記する（月バケツの書き込みは1回）
+function recordAuditMonth(
+  month: MonthISO,
+  changes: Array<[DayISO, DayLog | undefined, DayLog | undefined]>
+): void {
+  const at = Date.now();
+  const map = loadAuditMonth(month);
+  let changed = false;
+
+  for (const [date, prev, next] of changes) {
+    const added = diffForAudit(prev, next, at);
+    if (added.length === 0) continue;
+    map[date] = [...(map[date] ?? []), ...added];
+    changed = true;
+
+    const own = ownAudit.get(month) ?? {};
+    own[date] = map[date];
+    ownAudit.set(month, own);
+  }
+
+  if (changed) localStorage.setItem(auditKey(month), JSON.stringify(map));
+}
+
+// --- 別タブ・別ウィンドウとの同期 ---
+// このタブで書き込んで、まだ別タブに追い越されていない日（null = 削除）
+const ownWrites = new Map<DayISO, DayLog | null>();
+
+/**
+ * 別タブが月バケツを書いたとき、こちらの書き込みが古い内容で上書きされていたら書き戻す
+ * - 相手の内容がこちらより古いときだけ書き戻す（同じか新しければ相手が勝ち、以後は見張らない）
+ * - 相手の月バケツから消えている日は「相手が削除した」として受け入れる（書き戻さない）
+ * - こちらで削除した日は相手の内容を優先する
+ */
+function reconcileMonth(month: MonthISO): void {
+  const map = loadMonthMap(month);
+  let changed = false;
+
+  for (const [date, ours] of ownWrites) {
+    if (toMonthISO(date) !== month) continue;
+
+    const theirs = map[date];
+    if (!ours || !theirs || (theirs.updatedAt ?? 0) >= (ours.updatedAt ?? 0)) {
+      ownWrites.delete(date);
+      continue;
+    }
+
+    map[date] = ours;
+    changed = true;
+  }
+
+  if (changed) saveMonthMap(month, map);
+}
+
+// このタブで書いた変更履歴（月 -> 日 -> 書いたときの一覧）。別タブに消されていないか見張る
+const ownAudit = new Map<MonthISO, AuditLogMap>();
+
+function auditEntryKey(e: AuditEntry): string {
+  return JSON.stringify(e);
+}
+
+/**
+ * 別タブが変更履歴の月バケツを書いたとき、こちらの追記が消えていたら足し戻す
+ * - 同じ月を同時に読み書きすると、後から書いた方の内容だけが残るため
+ * - 相手の一覧にこちらの項目が全部あれば、その日は以後見張らない
+ */
+function reconcileAuditMonth(month: MonthISO): void {
+  const own = ownAudit.get(month);
+  if (!own) return;
+
+  const map = loadAuditMonth(month);
+  let changed = false;
+
+  for (const [date, ours] of Object.entries(own) as Array<[DayISO, AuditEntry[]]>) {
+    const theirs = map[date] ?? [];
+    const known = new Set(theirs.map(auditEntryKey));
+    const missing = ours.filter((e) => !known.has(auditEntryKey(e)));
+
+    if (missing.length === 0) {
+      delete own[date];
+      continue;
+    }
+
+    map[date] = [...theirs, ...missing].sort((a, b) => a.at - b.at);
+    changed = true;
   }
+
+  if (Object.keys(own).length === 0) ownAudit.delete(month);
+  if (changed) localStorage.setItem(auditKey(month), JSON.stringify(map));
+}
+
+function onStorageEvent(e: StorageEvent): void {
+  if (e.storageArea !== localStorage) return;
+
+  // clear() されたときは key が null
+  if (e.key === null) {
+    notifyChange();
+    return;
+  }
+
+  if (e.key.startsWith(V2_PREFIX)) {
+    const month = e.key.slice(V2_PREFIX.length) as MonthISO;
+    reconcileMonth(month);
+    notifyChange([month]);
+    return;
+  }
+
+  // 記録の月バケツは変わっていない（変わっていればそちらのイベントも届く）
+  if (e.key.startsWith(AUDIT_PREFIX)) {
+    reconcileAuditMonth(e.key.slice(AUDIT_PREFIX.length) as MonthISO);
+    notifyChange([]);
+    return;
+  }
+
+  if (e.key === KEYS.appSettings) {
+    setDayBoundary(loadAppSettings().dayStartMinutes);
+    notifyChange([]);
+    return;
+  }
+
+  if (e.key === KEYS.tasks || e.key === KEYS.scoringProfiles) {
+    notifyChange([]);
+  }
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("storage", onStorageEvent);
+
+  // 起動時に1日の区切りを反映（最初の「今日」の計算より前）
+  setDayBoundary(loadAppSettings().dayStartMinutes);
 }
@@ -0,0 +1,39 @@
+// src/infra/validate.ts
+import type { RankTier, ScoringProfile, ScoringProfileVersion } from "../domain/types";
+
+// 保存データ・バックアップの形の確認（読み込んだ後はそのまま画面・集計で使うので、中身の型まで見る）
+
+export const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+// 省略できる項目は「無い」か「正しい型」
+export function isOptional(v: unknown, check: (x: unknown) => boolean): boolean {
+  return v === undefined || check(v);
+}
+
+function isRankTier(v: unknown): v is RankTier {
+  return isObject(v) && typeof v.name === "string" && typeof v.min === "number";
+}
+
+function isScoringProfile(v: unknown): v is ScoringProfile {
+  return (
+    isObject(v) &&
+    typeof v.corePool === "number" &&
+    typeof v.missPenalty === "number" &&
+    typeof v.rankRequiresAllCore === "boolean" &&
+    typeof v.baseRank === "string" &&
+    Array.isArray(v.tiers) &&
+    v.tiers.every(isRankTier)
+  );
+}
+
+export function isScoringProfileVersion(v: unknown): v is ScoringProfileVersion {
+  return (
+    isObject(v) &&
+    isOptional(v.effectiveFrom, (x) => typeof x === "string" && DAY_RE.test(x)) &&
+    isScoringProfile(v.profile)
+  );
+}
@@ -0,0 +1,127 @@
+// src/pages/DayPlanEditor.tsx
+import type { DayISO, DayPlan, PlanTarget, ScoringProfile, Task } from "../domain/types";
+import { isPlannedOn, isRecurringOn, recurrenceLabel } from "../domain/schedule";
+import { rankOrder } from "../domain/plan";
+
+// 配列に入れる / 外す（重複させない）
+function toggleId(ids: string[] | undefined, id: string, on: boolean): string[] {
+  const rest = (ids ?? []).filter((x) => x !== id);
+  return on ? [...rest, id] : rest;
+}
+
+// 未来日の予定（やるタスクの出し入れ・休息日・目標）
+export default function DayPlanEditor({
+  day,
+  plan,
+  tasks,
+  profile,
+  onChange,
+}: {
+  day: DayISO;
+  plan: DayPlan;
+  tasks: Task[];
+  profile: ScoringProfile;
+  onChange: (next: DayPlan, label: string) => void;
+}) {
+  const candidates = tasks.filter((t) => t.isActive);
+  const ranks = rankOrder(profile);
+  const target = plan.target;
+
+  function toggleTask(task: Task, on: boolean) {
+    // 実施日のタスクは skip で外す / 実施日でないタスクは add で入れる
+    const next = isRecurringOn(task.recurrence, day)
+      ? { ...plan, skip: toggleId(plan.skip, task.id, !on) }
+      : { ...plan, add: toggleId(plan.add, task.id, on) };
+    onChange(next, on ? `「${task.title}」を予定に入れる` : `「${task.title}」を予定から外す`);
+  }
+
+  function setTarget(next: PlanTarget | undefined) {
+    onChange({ ...plan, target: next }, next ? "目標を変更" : "目標を外す");
+  }
+
+  return (
+    <div style={{ padding: 12, border: "1px solid #ccc", marginBottom: 16 }}>
+      <h2 style={{ marginTop: 0 }}>この日の予定</h2>
+
+      <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+        <input
+          type="checkbox"
+          checked={!!plan.restDay}
+          onChange={(e) =>
+            onChange({ ...plan, restDay: e.target.checked }, e.target.checked ? "休息日にする" : "休息日を解除")
+          }
+        />
+        <span>休息日にする（繰り返しのタスクは対象外 / 単発タスクは残る）</span>
+      </label>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+        <span>目標：</span>
+        <select
+          value={target?.kind ?? "none"}
+          onChange={(e) => {
+            const kind = e.target.value;
+            if (kind === "rank") setTarget({ kind: "rank", rank: ranks[0] });
+            else if (kind === "score") setTarget({ kind: "score", score: profile.corePool });
+            else setTarget(undefined);
+          }}
+          style={{ padding: 6 }}
+        >
+          <option value="none">なし</option>
+          <option value="rank">ランク</option>
+          <option value="score">スコア</option>
+        </select>
+
+        {target?.kind === "rank" && (
+          <select
+            value={target.rank}
+            onChange={(e) => setTarget({ kind: "rank", rank: e.target.value })}
+            style={{ padding: 6 }}
+          >
+            {ranks.map((r) => (
+              <option key={r} value={r}>
+                {r} 以上
+              </option>
+            ))}
+          </select>
+        )}
+
+        {target?.kind === "score" && (
+          <label>
+            <input
+              type="number"
+              min={0}
+              value={target.score}
+              onChange={(e) => setTarget({ kind: "score", score: Math.max(0, Number(e.target.value) || 0) })}
+              style={{ width: 80, padding: 6 }}
+            />{" "}
+            点以上
+          </label>
+        )}
+      </div>
+
+      {!plan.restDay && (
+        <ul style={{ listStyle: "none", paddingLeft: 0, marginBottom: 0 }}>
+          {candidates.map((t) => {
+            const planned = isPlannedOn(t, day, plan);
+            const scheduled = isRecurringOn(t.recurrence, day);
+            return (
+              <li key={t.id} style={{ marginTop: 4 }}>
+                <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <input type="checkbox" checked={planned} onChange={(e) => toggleTask(t, e.target.checked)} />
+                  <span>
+                    {t.title}
+                    <small style={{ marginLeft: 6, opacity: 0.7 }}>
+                      {t.isCore ? "最重要" : `+${t.points}`}・{recurrenceLabel(t.recurrence)}
+                      {scheduled && !planned ? "・この日は外す" : ""}
+                      {!scheduled && planned ? "・この日だけ入れる" : ""}
+                    </small>
+                  </span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
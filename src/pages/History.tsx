@@ -1,52 +1,76 @@
 // src/pages/History.tsx
-import { useEffect, useMemo, useState } from "react";
-import type { DayISO, DayLog, Task } from "../domain/types";
-import { calcScore } from "../domain/scoring";
+import { useMemo, useState, type CSSProperties } from "react";
+import type { AuditEntry, DayISO, DayLog, DayPlan, ScoringProfile, ScoringProfileVersion, Task } from "../domain/types";
 import {
-  listAvailableMonths,
-  loadDayLogMap,
-  loadDayLogMapForMonth,
-  loadTasks,
-} from "../infra/storage";
-import { todayKey, isFutureDay } from "../utils/date";
+  amountOf,
+  calcDayScore,
+  calcWeeklyScore,
+  isQuantityTask,
+  isTaskDone,
+  profileForDay,
+  tasksForDay,
+} from "../domain/scoring";
+import { calcPlanAccuracy, describeTarget, isTargetMet } from "../domain/plan";
+import { calcStreaks } from "../domain/streak";
+import { aggregateByPeriod, type PeriodKind } from "../domain/aggregate";
+import { coalesceAudit, editDelayDays, lateEditDelay } from "../domain/audit";
+import { categoryLabel } from "../domain/category";
+import {
+  EXCLUDE_REASON_PRESETS,
+  MAX_EXCLUDE_RANGE_DAYS,
+  clearExclusion,
+  daysInRange,
+  excludeWithReason,
+  findExcludeRanges,
+} from "../domain/exclusion";
+import {
+  useAppSettings,
+  useAuditLogRange,
+  useAvailableMonths,
+  useDayLogMap,
+  useDayLogRange,
+  useMonthDayLogs,
+  useRepository,
+  useScoringProfiles,
+  useTasks,
+  useTodayISO,
+} from "../state/hooks";
+import { reportSaveError, updateDayLogsWithUndo } from "../state/undo";
+import {
+  isFutureDay,
+  addDays,
+  diffDays,
+  fmtMMDD,
+  isoWeekKey,
+  isoWeekStart,
+  recentDays,
+} from "../utils/date";
+import { toCsv, type CsvCell } from "../utils/csv";
+import { downloadText } from "../utils/download";
 
 import {
   ResponsiveContainer,
   LineChart,
   Line,
+  BarChart,
+  Bar,
   XAxis,
   YAxis,
   Tooltip,
   CartesianGrid,
+  Legend,
 } from "recharts";
 
 type RangeKey = "7" | "30";
+
+// 分野別グラフの色（分野の並び順に割り当てる）
+const CATEGORY_COLORS = ["#4e79a7", "#f28e2b", "#59a14f", "#e15759", "#76b7b2", "#edc948", "#b07aa1", "#9c755f"];
 type Mode = "recent" | "month";
 type MonthISO = `${number}-${string}`; // "YYYY-MM"
 
-function toDayISO(d: Date): DayISO {
-  const y = d.getFullYear();
-  const m = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${y}-${m}-${dd}` as DayISO;
-}
-
-function fmtMMDD(iso: DayISO): string {
-  // "YYYY-MM-DD" -> "MM/DD"
-  return iso.slice(5, 7) + "/" + iso.slice(8, 10);
-}
-
-function genRecentDays(days: number): DayISO[] {
-  const now = new Date();
-  const base = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-  const out: DayISO[] = [];
-
-  for (let i = days - 1; i >= 0; i--) {
-    const d = new Date(base);
-    d.setDate(d.getDate() - i);
-    out.push(toDayISO(d));
-  }
-  return out;
+// 直近の日付（1日の区切りの設定を反映）
+function genRecentDays(days: number, today: DayISO): DayISO[] {
+  return recentDays(days, today) as DayISO[];
 }
 
 function fmtUpdatedAt(ts?: number): string {
@@ -71,9 +95,539 @@ function monthLabel(m: MonthISO): string {
   return `${y}年${mm}月`;
 }
 
-export default function History() {
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [logs, setLogs] = useState<Record<DayISO, DayLog>>({});
+// 予定の変更の説明（休息日・目標・やるタスクのうち変わったもの）
+function describePlanChange(from: DayPlan | undefined, to: DayPlan | undefined): string {
+  if (!to) return "予定を取り消し";
+  const parts: string[] = [];
+  if (!!from?.restDay !== !!to.restDay) parts.push(to.restDay ? "休息日にする" : "休息日を解除");
+  if (JSON.stringify(from?.target ?? null) !== JSON.stringify(to.target ?? null)) {
+    parts.push(to.target ? `目標を「${describeTarget(to.target)}」に` : "目標を外す");
+  }
+  if (JSON.stringify([from?.skip ?? [], from?.add ?? []]) !== JSON.stringify([to.skip ?? [], to.add ?? []])) {
+    parts.push("やるタスクを変更");
+  }
+  return `予定：${parts.join("・") || "変更"}`;
+}
+
+// 変更履歴1件の説明（表示用にまとめた結果が元の値に戻っていれば、その旨を添える）
+function describeAudit(e: AuditEntry, taskOf: (id: string) => Task | undefined): string {
+  if (e.kind === "note") {
+    if (e.from === e.to) return "メモを編集して元に戻した";
+    if (!e.to) return "メモを削除";
+    return `メモを編集：「${e.to.length > 30 ? e.to.slice(0, 30) + "…" : e.to}」`;
+  }
+  if (e.kind === "exclude") return e.to ? "集計から除外" : "除外を解除";
+  if (e.kind === "excludeReason") return e.to ? `除外の理由：${e.to}` : "除外の理由を消す";
+  if (e.kind === "plan") return describePlanChange(e.from, e.to);
+  if (e.kind === "adHoc") {
+    if (e.change === "add") return `単発タスク「${e.title}」を追加`;
+    if (e.change === "remove") return `単発タスク「${e.title}」を削除`;
+    return `単発タスク「${e.title}」を${e.carriedTo}に繰り越し`;
+  }
+
+  const t = taskOf(e.taskId);
+  const title = t?.title ?? e.taskId;
+  if (typeof e.from === "number" || typeof e.to === "number") {
+    const unit = t?.unit ?? "";
+    const reverted = e.from === e.to ? "（元に戻した）" : "";
+    return `「${title}」${Number(e.from ?? 0)}${unit} → ${Number(e.to ?? 0)}${unit}${reverted}`;
+  }
+  return e.to ? `「${title}」をチェック` : `「${title}」のチェックを外す`;
+}
+
+// ====== 週別・月別の集計 ======
+const REPORT_PERIODS = 12;
+
+function fmtDelta(v: number | null | undefined, digits = 1, suffix = ""): string {
+  if (v == null) return "";
+  const sign = v > 0 ? "+" : v < 0 ? "−" : "±";
+  return `${sign}${Math.abs(v).toFixed(digits)}${suffix}`;
+}
+
+function deltaColor(v: number | null | undefined): string | undefined {
+  if (v == null || v === 0) return undefined;
+  return v > 0 ? "#2e7d32" : "#c62828";
+}
+
+// 表に出す期間 + 差分用にもう1期間ぶんの開始日
+function reportRangeStart(today: DayISO, kind: PeriodKind): DayISO {
+  if (kind === "week") return addDays(isoWeekStart(today), -7 * REPORT_PERIODS) as DayISO;
+
+  const [y, m] = today.split("-").map(Number);
+  const n = y * 12 + (m - 1) - REPORT_PERIODS;
+  return `${Math.floor(n / 12)}-${String((n % 12) + 1).padStart(2, "0")}-01` as DayISO;
+}
+
+function PeriodReports({
+  tasks,
+  profiles,
+  includeExcluded,
+}: {
+  tasks: Task[];
+  profiles: ScoringProfileVersion[];
+  includeExcluded: boolean;
+}) {
+  const [kind, setKind] = useState<PeriodKind>("week");
+  const today = useTodayISO();
+
+  // 表に出す期間だけ読む（全期間は読まない）
+  const logs = useDayLogRange(reportRangeStart(today, kind), today);
+
+  const reports = useMemo(
+    () => aggregateByPeriod(logs, tasks, profiles, kind, { today, includeExcluded }).slice(0, REPORT_PERIODS),
+    [logs, tasks, profiles, kind, includeExcluded, today]
+  );
+
+  // ランクの並び：今の設定の順（基本 → 上位）、設定に無い名前は後ろ
+  const rankNames = useMemo(() => {
+    const p = profileForDay(profiles, today);
+    const names = [p.baseRank, ...p.tiers.slice().sort((a, b) => a.min - b.min).map((t) => t.name)];
+    for (const r of reports) {
+      for (const n of Object.keys(r.rankCounts)) if (!names.includes(n)) names.push(n);
+    }
+    return names;
+  }, [profiles, reports, today]);
+
+  const chartData = useMemo(
+    () =>
+      reports
+        .slice()
+        .reverse()
+        .map((r) => ({ label: kind === "week" ? r.key.slice(5) : r.key, average: Math.round(r.average) })),
+    [reports, kind]
+  );
+
+  const cell: CSSProperties = { padding: "4px 6px", borderBottom: "1px solid #eee", whiteSpace: "nowrap" };
+
+  return (
+    <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 8 }}>
+        <div style={{ fontWeight: 700 }}>{kind === "week" ? "週別" : "月別"}の集計</div>
+        <select value={kind} onChange={(e) => setKind(e.target.value as PeriodKind)} style={{ padding: "4px 8px" }}>
+          <option value="week">週別（ISO週）</option>
+          <option value="month">月別</option>
+        </select>
+      </div>
+
+      {reports.length === 0 ? (
+        <div style={{ opacity: 0.8 }}>集計できる記録がありません。</div>
+      ) : (
+        <>
+          <div style={{ width: "100%", height: 180 }}>
+            <ResponsiveContainer>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="average" name="平均" fill="#7bc96f" isAnimationActive={false} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div style={{ overflowX: "auto", marginTop: 8 }}>
+            <table style={{ borderCollapse: "collapse", fontSize: 13, width: "100%" }}>
+              <thead>
+                <tr style={{ textAlign: "left" }}>
+                  <th style={cell}>期間</th>
+                  <th style={cell}>日数</th>
+                  <th style={cell}>平均</th>
+                  <th style={cell}>中央値</th>
+                  <th style={cell}>最高 / 最低</th>
+                  <th style={cell}>ランク</th>
+                  <th style={cell}>最重要達成率</th>
+                </tr>
+              </thead>
+              <tbody>
+                {reports.map((r) => (
+                  <tr key={r.key}>
+                    <td style={cell}>
+                      {kind === "week" ? `${r.key}（${fmtMMDD(r.from)}〜）` : monthLabel(r.key as MonthISO)}
+                    </td>
+                    <td style={cell}>{r.count}</td>
+                    <td style={cell}>
+                      {r.average.toFixed(1)}{" "}
+                      <small style={{ color: deltaColor(r.delta?.average) }}>{fmtDelta(r.delta?.average)}</small>
+                    </td>
+                    <td style={cell}>
+                      {r.median.toFixed(1)}{" "}
+                      <small style={{ color: deltaColor(r.delta?.median) }}>{fmtDelta(r.delta?.median)}</small>
+                    </td>
+                    <td style={cell}>
+                      {r.best ? `${Math.round(r.best.score)}（${fmtMMDD(r.best.date)}）` : "—"} /{" "}
+                      {r.worst ? `${Math.round(r.worst.score)}（${fmtMMDD(r.worst.date)}）` : "—"}
+                    </td>
+                    <td style={cell}>
+                      {rankNames
+                        .filter((n) => r.rankCounts[n])
+                        .map((n) => `${n}×${r.rankCounts[n]}`)
+                        .join(" ") || "—"}
+                      {r.noRankDays > 0 ? <small style={{ opacity: 0.7 }}>（なし×{r.noRankDays}）</small> : null}
+                    </td>
+                    <td style={cell}>
+                      {r.coreRate == null ? "—" : `${Math.round(r.coreRate * 100)}%`}{" "}
+                      <small style={{ color: deltaColor(r.delta?.coreRate) }}>
+                        {r.delta?.coreRate == null ? "" : fmtDelta(r.delta.coreRate * 100, 0, "pt")}
+                      </small>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ marginTop: 8, opacity: 0.8, fontSize: 12 }}>
+            ※差分は直前の{kind === "week" ? "週" : "月"}との比較です（記録が無ければ表示しません）
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ====== 年間ヒートマップ ======
+type HeatColorBy = "score" | "rank";
+
+const HEAT_COLORS = ["#ebedf0", "#c6e48b", "#7bc96f", "#239a3b", "#196127"];
+
+// rawScore の色の区切り（最重要の満点 + 上位ランクの下限 / 色が足りなければ上のランクを優先）
+function scoreBands(profile: ScoringProfile): number[] {
+  const tierMins = [...new Set(profile.tiers.map((t) => t.min))]
+    .filter((m) => m !== profile.corePool)
+    .sort((a, b) => a - b)
+    .slice(-(HEAT_COLORS.length - 3));
+  return [profile.corePool, ...tierMins].filter((m) => m > 0).sort((a, b) => a - b);
+}
+
+// rawScore の段階（0 / 最初の区切り未満 / 区切りを超えるごとに濃く）
+function scoreLevel(score: number, profiles: ScoringProfileVersion[], day: DayISO): number {
+  if (score <= 0) return 0;
+  return 1 + scoreBands(profileForDay(profiles, day)).filter((b) => score >= b).length;
+}
+
+// 凡例（例：0 / 〜99 / 100〜 / 120〜 / 150〜）
+function scoreLegend(profile: ScoringProfile): string {
+  const bands = scoreBands(profile);
+  const below = bands.length > 0 ? `〜${bands[0] - 1}` : "1〜";
+  return ["0", below, ...bands.map((b) => `${b}〜`)].join(" / ");
+}
+
+// ランクの段階（ランクなし=0 / 基本ランク=1 / 上位ほど濃く）
+function rankLevel(rank: string | undefined, profiles: ScoringProfileVersion[], day: DayISO): number {
+  if (!rank) return 0;
+  const profile = profileForDay(profiles, day);
+  if (rank === profile.baseRank) return 1;
+  const names = profile.tiers.slice().sort((a, b) => a.min - b.min).map((t) => t.name);
+  const i = names.indexOf(rank);
+  return Math.min(HEAT_COLORS.length - 1, i < 0 ? 1 : i + 2);
+}
+
+type HeatCell = {
+  date: DayISO;
+  inYear: boolean;
+  future: boolean;
+  log?: DayLog;
+  score?: number;
+  rank?: string;
+  coreMissed: boolean;
+};
+
+function YearHeatmap({
+  tasks,
+  profiles,
+  years,
+  onOpenDay,
+}: {
+  tasks: Task[];
+  profiles: ScoringProfileVersion[];
+  years: string[];
+  onOpenDay: (date: DayISO) => void;
+}) {
+  const today = useTodayISO();
+  const [year, setYear] = useState(today.slice(0, 4));
+  const [colorBy, setColorBy] = useState<HeatColorBy>("score");
+
+  const logs = useDayLogRange(`${year}-01-01` as DayISO, `${year}-12-31` as DayISO);
+
+  // 列 = ISO週（月曜はじまり）、行 = 曜日
+  const weeks = useMemo(() => {
+    const first = isoWeekStart(`${year}-01-01`);
+    const out: HeatCell[][] = [];
+
+    for (let ws = first; ws <= `${year}-12-31`; ws = addDays(ws, 7)) {
+      const week: HeatCell[] = [];
+      for (let i = 0; i < 7; i++) {
+        const date = addDays(ws, i) as DayISO;
+        const log = logs[date];
+        const r = log ? calcDayScore(log, tasks, profiles) : undefined;
+        week.push({
+          date,
+          inYear: date.startsWith(year),
+          future: isFutureDay(date, today),
+          log,
+          score: r?.rawScore,
+          rank: r?.rank,
+          coreMissed: !!r && r.coreTotal > 0 && r.coreIncompleteCount > 0,
+        });
+      }
+      out.push(week);
+    }
+    return out;
+  }, [year, logs, tasks, profiles, today]);
+
+  // 凡例はその年の最後の日（今年なら今日）の設定で出す
+  const yearEnd = `${year}-12-31` as DayISO;
+  const legendProfile = profileForDay(profiles, today < yearEnd ? today : yearEnd);
+
+  const yearOptions = useMemo(
+    () => Array.from(new Set([today.slice(0, 4), ...years])).sort((a, b) => (a < b ? 1 : -1)),
+    [years, today]
+  );
+
+  function cellStyle(c: HeatCell): CSSProperties {
+    const base: CSSProperties = { width: 12, height: 12, borderRadius: 2, boxSizing: "border-box" };
+    if (!c.inYear) return { ...base, visibility: "hidden" };
+    if (c.future) return { ...base, border: "1px solid #f0f0f0" };
+    if (!c.log) return { ...base, border: "1px dashed #ccc" }; // 記録なし
+    if (c.log.excludeFromStats) {
+      return { ...base, background: "repeating-linear-gradient(45deg, #ddd 0 2px, #fff 2px 4px)" };
+    }
+
+    const level =
+      colorBy === "score" ? scoreLevel(c.score ?? 0, profiles, c.date) : rankLevel(c.rank, profiles, c.date);
+    return {
+      ...base,
+      background: HEAT_COLORS[level],
+      border: c.coreMissed ? "2px solid #e57373" : undefined, // 最重要の取りこぼし
+    };
+  }
+
+  function cellTitle(c: HeatCell): string {
+    if (!c.log) return `${c.date} 記録なし`;
+    if (c.log.excludeFromStats) return `${c.date} 集計から除外`;
+    const rank = c.rank ? ` / ${c.rank}` : "";
+    const missed = c.coreMissed ? " / 最重要未達" : "";
+    return `${c.date} ${Math.round(c.score ?? 0)}点${rank}${missed}`;
+  }
+
+  return (
+    <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap", marginBottom: 8 }}>
+        <div style={{ fontWeight: 700 }}>年間ヒートマップ</div>
+        <select value={year} onChange={(e) => setYear(e.target.value)} style={{ padding: "4px 8px" }}>
+          {yearOptions.map((y) => (
+            <option key={y} value={y}>
+              {y}年
+            </option>
+          ))}
+        </select>
+        <select
+          value={colorBy}
+          onChange={(e) => setColorBy(e.target.value as HeatColorBy)}
+          style={{ padding: "4px 8px" }}
+        >
+          <option value="score">スコアで色分け</option>
+          <option value="rank">ランクで色分け</option>
+        </select>
+      </div>
+
+      <div style={{ overflowX: "auto" }}>
+        <div style={{ display: "flex", gap: 2 }}>
+          {weeks.map((w) => (
+            <div key={w[0].date} style={{ display: "grid", gap: 2 }}>
+              {w.map((c) => (
+                <div
+                  key={c.date}
+                  title={c.inYear ? cellTitle(c) : undefined}
+                  onClick={c.inYear ? () => onOpenDay(c.date) : undefined}
+                  style={{ ...cellStyle(c), cursor: c.inYear ? "pointer" : undefined }}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: 12, flexWrap: "wrap", marginTop: 8, fontSize: 12, opacity: 0.8 }}>
+        <span>薄 → 濃：{colorBy === "score" ? scoreLegend(legendProfile) : "ランクなし / 基本 / 上位ランク"}</span>
+        <span>赤枠：最重要未達</span>
+        <span>斜線：除外日</span>
+        <span>点線：記録なし</span>
+        <span>クリックでTodayに移動</span>
+      </div>
+    </div>
+  );
+}
+
+// ====== 期間でまとめて除外（旅行・体調不良など） ======
+function ExcludeRanges() {
+  const repo = useRepository();
+  const today = useTodayISO();
+
+  // 一覧は全期間から探すので、開いたときだけ読む
+  const [listOpen, setListOpen] = useState(false);
+  const logs = useDayLogMap(listOpen);
+
+  const [from, setFrom] = useState<DayISO>(today);
+  const [to, setTo] = useState<DayISO>(today);
+  const [reason, setReason] = useState(EXCLUDE_REASON_PRESETS[0]);
+  const [reasonFilter, setReasonFilter] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const ranges = useMemo(() => findExcludeRanges(logs), [logs]);
+  const reasons = useMemo(() => [...new Set(ranges.map((r) => r.reason))], [ranges]);
+  const shown = reasonFilter == null ? ranges : ranges.filter((r) => r.reason === reasonFilter);
+
+  // 日数だけ先に数える（年の入力途中の 0020-01-01 なども来るので、日付の列は実行時に作る）
+  const dayCount = from && to ? diffDays(from, to) + 1 : NaN;
+  const invalid = !(dayCount >= 1 && dayCount <= MAX_EXCLUDE_RANGE_DAYS);
+
+  async function run(dates: DayISO[], update: (log: DayLog) => DayLog, label: string) {
+    setBusy(true);
+    try {
+      await updateDayLogsWithUndo(repo, dates, update, label);
+    } catch (e) {
+      reportSaveError(e);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 8 }}>期間でまとめて除外</div>
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <input type="date" value={from} onChange={(e) => setFrom(e.target.value as DayISO)} style={{ padding: 6 }} />
+        〜
+        <input type="date" value={to} onChange={(e) => setTo(e.target.value as DayISO)} style={{ padding: 6 }} />
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          list="exclude-reasons"
+          placeholder="理由"
+          style={{ padding: 6, width: 120 }}
+        />
+        <datalist id="exclude-reasons">
+          {EXCLUDE_REASON_PRESETS.map((r) => (
+            <option key={r} value={r} />
+          ))}
+        </datalist>
+        <button
+          disabled={invalid || busy}
+          onClick={() =>
+            void run(
+              daysInRange(from, to),
+              (log) => excludeWithReason(log, reason),
+              `${from}〜${to} を除外${reason.trim() ? `（${reason.trim()}）` : ""}`
+            )
+          }
+          style={{ padding: "6px 10px" }}
+        >
+          {invalid ? "期間を確認" : `${dayCount}日を除外`}
+        </button>
+      </div>
+      <div style={{ marginTop: 6, opacity: 0.8, fontSize: 12 }}>
+        ※未来日も指定できます。メモやチェックはそのまま残ります（元に戻すで取り消せます）
+      </div>
+
+      <button onClick={() => setListOpen((v) => !v)} style={{ marginTop: 12, padding: "2px 8px" }}>
+        除外した期間の一覧 {listOpen ? "▲" : "▼"}
+      </button>
+
+      {listOpen && ranges.length === 0 && <div style={{ marginTop: 8, opacity: 0.8 }}>除外した日はありません。</div>}
+
+      {listOpen && ranges.length > 0 && (
+        <>
+          <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 12 }}>
+            <button
+              onClick={() => setReasonFilter(null)}
+              style={{ padding: "2px 8px", fontWeight: reasonFilter == null ? 700 : 400 }}
+            >
+              すべて
+            </button>
+            {reasons.map((r) => (
+              <button
+                key={r}
+                onClick={() => setReasonFilter(r)}
+                style={{ padding: "2px 8px", fontWeight: reasonFilter === r ? 700 : 400 }}
+              >
+                {r || "理由なし"}
+              </button>
+            ))}
+          </div>
+
+          <ul style={{ margin: "8px 0 0", paddingLeft: 20 }}>
+            {shown.map((r) => (
+              <li key={r.from} style={{ marginTop: 4 }}>
+                {r.from === r.to ? r.from : `${r.from}〜${r.to}`}（{r.days}日）
+                <span style={{ marginLeft: 6, opacity: 0.8 }}>{r.reason || "理由なし"}</span>
+                <button
+                  disabled={busy}
+                  onClick={() => void run(daysInRange(r.from, r.to), clearExclusion, `${r.from}〜${r.to} の除外を解除`)}
+                  style={{ marginLeft: 8, padding: "2px 8px" }}
+                >
+                  解除
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+// ====== 連続達成（全期間を見るので、開いたときだけ読む） ======
+function StreakSummary({ tasks, profiles }: { tasks: Task[]; profiles: ScoringProfileVersion[] }) {
+  const today = useTodayISO();
+  const [open, setOpen] = useState(false);
+  const allLogs = useDayLogMap(open);
+
+  const streak = useMemo(() => calcStreaks(allLogs, tasks, today, profiles), [allLogs, tasks, profiles, today]);
+
+  // 長い順に上位だけ（同じ長さなら新しい方）
+  const topRuns = useMemo(
+    () =>
+      streak.history
+        .slice()
+        .sort((a, b) => b.length - a.length || (a.end < b.end ? 1 : -1))
+        .slice(0, 5),
+    [streak]
+  );
+
+  return (
+    <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
+      <button onClick={() => setOpen((v) => !v)} style={{ fontWeight: 700, padding: "2px 8px" }}>
+        連続達成（最重要全達成の日） {open ? "▲" : "▼"}
+      </button>
+      {open && (
+        <div style={{ marginTop: 8 }}>
+          現在：<b>{streak.current}日</b> / 最長：<b>{streak.longest}日</b> / 回数：{streak.history.length}
+        </div>
+      )}
+      {open && topRuns.length > 0 ? (
+        <ul style={{ margin: "8px 0 0", paddingLeft: 20 }}>
+          {topRuns.map((r) => (
+            <li key={r.start}>
+              {r.start} 〜 {r.end}：{r.length}日
+            </li>
+          ))}
+        </ul>
+      ) : null}
+      <div style={{ marginTop: 8, opacity: 0.8, fontSize: 12 }}>
+        ※除外日は連続を切らない「お休み」扱いです（日数には数えません）
+      </div>
+    </div>
+  );
+}
+
+export default function History({ onOpenDay }: { onOpenDay: (date: DayISO) => void }) {
+  const tasks = useTasks();
+  const profiles = useScoringProfiles();
+
+  // 今日（開いたまま日付が変わっても進む）
+  const today = useTodayISO();
 
   // 表示モード
   const [mode, setMode] = useState<Mode>("recent");
@@ -82,46 +636,39 @@ export default function History() {
   const [range, setRange] = useState<RangeKey>("7");
 
   // 月遡り
-  const [months, setMonths] = useState<MonthISO[]>([]);
-  const [selectedMonth, setSelectedMonth] = useState<MonthISO | "">("");
-
-  const [includeExcluded, setIncludeExcluded] = useState(false);
+  const months = useAvailableMonths() as MonthISO[];
 
-  useEffect(() => {
-    setTasks(loadTasks());
+  // 初期の月：今月（データがあればそれ優先）/ なければ最新月
+  const [selectedMonth, setSelectedMonth] = useState<MonthISO | "">(() => {
+    const now = today.slice(0, 7) as MonthISO;
+    return (months.includes(now) ? now : months[0]) ?? now;
+  });
 
-    const ms = listAvailableMonths() as MonthISO[];
-    setMonths(ms);
-
-    // 初期の月：今月（データがあればそれ優先）/ なければ最新月
-    const now = todayKey().slice(0, 7) as MonthISO;
-    const initialMonth = (ms.includes(now) ? now : ms[0]) ?? now;
-    setSelectedMonth(initialMonth);
+  const [includeExcluded, setIncludeExcluded] = useState(false);
 
-    // recentは全期間マップをロード（軽い規模前提）
-    setLogs(loadDayLogMap());
-  }, []);
+  // recentは直近の期間だけ（重なる月だけ読む）、月別はその月だけ
+  const recentFrom = genRecentDays(range === "7" ? 7 : 30, today)[0];
+  const recentLogs = useDayLogRange(recentFrom, today);
+  const monthLogs = useMonthDayLogs(selectedMonth);
+  const logs = mode === "recent" ? recentLogs : monthLogs;
 
-  // mode/monthが変わったら必要なものをロードし直す（月別は月だけ読む）
-  useEffect(() => {
-    if (mode === "recent") {
-      setLogs(loadDayLogMap());
-      return;
-    }
-    if (selectedMonth) {
-      setLogs(loadDayLogMapForMonth(selectedMonth as MonthISO));
-    }
-  }, [mode, selectedMonth]);
+  // 変更履歴（表示中の期間だけ）と「後から編集」の目安
+  const { lateEditDays } = useAppSettings();
+  const viewMonth = selectedMonth || (today.slice(0, 7) as MonthISO);
+  const audit = useAuditLogRange(
+    mode === "recent" ? recentFrom : (`${viewMonth}-01` as DayISO),
+    mode === "recent" ? today : (`${viewMonth}-31` as DayISO)
+  );
+  const [auditOpen, setAuditOpen] = useState<DayISO | null>(null);
 
   // ====== グラフデータ ======
   const chartData = useMemo(() => {
-    const today = todayKey();
 
     // 表示対象のdatesを作る
     let dates: DayISO[] = [];
 
     if (mode === "recent") {
-      dates = genRecentDays(range === "7" ? 7 : 30);
+      dates = genRecentDays(range === "7" ? 7 : 30, today);
     } else {
       // 月別：その月に存在する日付だけ（0埋めしない）
       const ds = Object.keys(logs) as DayISO[];
@@ -141,26 +688,43 @@ export default function History() {
         } as DayLog);
 
       const excluded = !!log.excludeFromStats;
-      const score = calcScore(tasks, log).rawScore;
+      const result = calcDayScore(log, tasks, profiles);
+      const hidden = !includeExcluded && excluded;
 
       return {
         date: d,
         label: fmtMMDD(d),
-        rawScore: !includeExcluded && excluded ? null : roundScore(score),
+        rawScore: hidden ? null : roundScore(result.rawScore),
+        byCategory: hidden ? {} : result.byCategory,
         excluded,
         updatedAt: log.updatedAt,
       };
     });
-  }, [mode, range, logs, tasks, includeExcluded]);
+  }, [mode, range, logs, tasks, profiles, includeExcluded, today]);
+
+  // ====== 分野別の内訳（積み上げ） ======
+  const categoryChart = useMemo(() => {
+    const seen = new Set(chartData.flatMap((p) => Object.keys(p.byCategory)));
+    const categories = [...seen].filter((c) => c !== "").sort((a, b) => a.localeCompare(b, "ja"));
+    if (seen.has("")) categories.push("");
+
+    // 分野名は date / label と重なったり、"未分類" という名前の分野もありうるので、キーは連番にする
+    const series = categories.map((category, i) => ({ category, key: `cat_${i}`, name: categoryLabel(category) }));
+    const data = chartData.map((p) => {
+      const row: Record<string, string | number | null> = { date: p.date, label: p.label };
+      for (const c of series) row[c.key] = roundScore(p.byCategory[c.category] ?? 0);
+      return row;
+    });
+    return { series, data };
+  }, [chartData]);
 
   // ====== 一覧 ======
   const rows = useMemo(() => {
-    const today = todayKey();
     let dates = (Object.keys(logs) as DayISO[]).sort((a, b) => (a < b ? 1 : -1));
 
     // recentのときだけ：7/30 の範囲に寄せる（一覧の整合性）
     if (mode === "recent") {
-      const cut = genRecentDays(range === "7" ? 7 : 30)[0];
+      const cut = genRecentDays(range === "7" ? 7 : 30, today)[0];
       dates = dates.filter((d) => d >= cut);
     }
 
@@ -174,28 +738,40 @@ export default function History() {
 
     return dates.map((d) => {
       const log = logs[d];
-      const scoreRes = calcScore(tasks, log);
+      const dayTasks = tasksForDay(log, tasks);
+      const scoreRes = calcDayScore(log, tasks, profiles);
 
       return {
         date: d,
         rawScore: roundScore(scoreRes.rawScore),
         showRank: scoreRes.showRank,
-        rank: scoreRes.rank, // "A" | "S" | "SS" | "SSS"
+        rank: scoreRes.rank, // 既定は "A" | "S" | "SS" | "SSS"（設定で変わる）
+        coreDone: scoreRes.coreDone,
+        coreTotal: scoreRes.coreTotal,
+        dayTasks,
+        adHocTasks: log?.adHocTasks ?? [],
+        checks: log?.checks ?? {},
         note: log?.note ?? "",
         updatedAt: log?.updatedAt,
         excludeFromStats: !!log?.excludeFromStats,
+        excludeReason: log?.excludeReason ?? "",
+        audit: coalesceAudit(audit[d] ?? []),
+        lateBy: lateEditDelay(d, audit[d] ?? [], lateEditDays),
+        plan: log?.plan,
+        planMet: log?.plan?.target
+          ? isTargetMet(log.plan.target, scoreRes, profileForDay(profiles, d))
+          : undefined,
       };
     });
-  }, [mode, range, logs, tasks, includeExcluded]);
+  }, [mode, range, logs, tasks, profiles, includeExcluded, today, audit, lateEditDays]);
 
   // ====== 平均など ======
   const summary = useMemo(() => {
-    const today = todayKey();
     let dates = (Object.keys(logs) as DayISO[]).sort();
 
     // recentのときだけ範囲適用
     if (mode === "recent") {
-      const cut = genRecentDays(range === "7" ? 7 : 30)[0];
+      const cut = genRecentDays(range === "7" ? 7 : 30, today)[0];
       dates = dates.filter((d) => d >= cut);
     }
 
@@ -207,9 +783,10 @@ export default function History() {
     }
 
     const excludedDays = dates.filter((d) => logs[d]?.excludeFromStats).length;
+    const plan = calcPlanAccuracy(logs, statsDates, tasks, profiles);
 
     if (statsDates.length === 0) {
-      return { avg: 0, coreMissDays: 0, count: 0, excludedDays, futureDays };
+      return { avg: 0, coreMissDays: 0, count: 0, excludedDays, futureDays, plan };
     }
 
     let total = 0;
@@ -217,7 +794,7 @@ export default function History() {
 
     for (const d of statsDates) {
       const log = logs[d];
-      const score = calcScore(tasks, log);
+      const score = calcDayScore(log, tasks, profiles);
       total += score.rawScore;
       if (score.coreIncompleteCount > 0) coreMissDays++;
     }
@@ -228,8 +805,67 @@ export default function History() {
       count: statsDates.length,
       excludedDays,
       futureDays,
+      plan,
     };
-  }, [mode, range, logs, tasks, includeExcluded]);
+  }, [mode, range, logs, tasks, profiles, includeExcluded, today]);
+
+  // ====== 週N回タスクの達成（表示中の期間にかかる週） ======
+  const weekFrom = mode === "recent" ? recentFrom : (`${selectedMonth}-01` as DayISO);
+  const weekTo = mode === "recent" ? today : (`${selectedMonth}-31` as DayISO); // 月末は文字列比較の上限として使う
+  // 表示中の期間にかかる週の頭から終わりまでだけ読む
+  const weekLogs = useDayLogRange(isoWeekStart(weekFrom) as DayISO, addDays(isoWeekStart(weekTo), 6) as DayISO);
+
+  const weeklyRows = useMemo(() => {
+    const out = [];
+    for (let ws = isoWeekStart(weekFrom); ws <= weekTo && ws <= today; ws = addDays(ws, 7)) {
+      out.push({ key: isoWeekKey(ws), ...calcWeeklyScore(tasks, weekLogs, ws as DayISO) });
+    }
+    return out.filter((w) => w.progress.length > 0).reverse();
+  }, [weekFrom, weekTo, tasks, weekLogs, today]);
+
+  // ====== CSV（一覧と同じ日付で書き出す） ======
+  function exportCsv() {
+    // 列にするタスク：今のタスク順 → その日の定義にだけ残っているタスク
+    const columns = new Map<string, Task>();
+    for (const t of tasks) columns.set(t.id, t);
+    for (const r of rows) {
+      for (const t of r.dayTasks) {
+        if (!columns.has(t.id)) columns.set(t.id, t);
+      }
+    }
+
+    const header: CsvCell[] = [
+      "date",
+      "rawScore",
+      "rank",
+      "coreDone",
+      "coreTotal",
+      "excludeFromStats",
+      "note",
+      ...[...columns.values()].map((t) => (isQuantityTask(t) ? `${t.title}（${t.unit ?? "量"}）` : t.title)),
+    ];
+
+    const body = rows
+      .slice()
+      .reverse() // 表計算では古い順の方が扱いやすい
+      .map((r): CsvCell[] => [
+        r.date,
+        r.rawScore ?? "",
+        r.showRank && r.rank ? r.rank : "",
+        r.coreDone,
+        r.coreTotal,
+        r.excludeFromStats ? 1 : 0,
+        r.note,
+        // 通常タスクは 0/1、量タスクは実績の量
+        ...[...columns.values()].map((t) =>
+          isQuantityTask(t) ? amountOf(t, r.checks[t.id]) : r.checks[t.id] ? 1 : 0
+        ),
+      ]);
+
+    const name =
+      mode === "recent" ? `daily-scores_recent${range}_${today}.csv` : `daily-scores_${selectedMonth}.csv`;
+    downloadText(name, toCsv([header, ...body]), "text/csv");
+  }
 
   return (
     <div style={{ padding: 16, maxWidth: 920, margin: "0 auto" }}>
@@ -320,6 +956,14 @@ export default function History() {
           />
           除外日も含める
         </label>
+
+        <button
+          onClick={exportCsv}
+          disabled={rows.length === 0}
+          style={{ padding: "6px 10px", borderRadius: 8, border: "1px solid #ccc", cursor: "pointer" }}
+        >
+          CSV書き出し
+        </button>
       </div>
 
       {/* ===== グラフ ===== */}
@@ -349,6 +993,36 @@ export default function History() {
         </div>
       </div>
 
+      {/* ===== 分野別の内訳 ===== */}
+      {categoryChart.series.some((c) => c.category !== "") && (
+        <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontWeight: 700, marginBottom: 8 }}>分野別の内訳</div>
+          <div style={{ width: "100%", height: 240 }}>
+            <ResponsiveContainer>
+              <BarChart data={categoryChart.data} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" />
+                <YAxis />
+                <Tooltip labelFormatter={(label, payload) => payload?.[0]?.payload?.date ?? label} />
+                <Legend />
+                {categoryChart.series.map((c, i) => (
+                  <Bar
+                    key={c.key}
+                    dataKey={c.key}
+                    name={c.name}
+                    stackId="category"
+                    fill={CATEGORY_COLORS[i % CATEGORY_COLORS.length]}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div style={{ marginTop: 8, opacity: 0.8, fontSize: 12 }}>
+            ※未達ペナルティを引く前の点数です（合計が rawScore より大きくなることがあります）
+          </div>
+        </div>
+      )}
+
       {/* ===== 平均など ===== */}
       <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
         <div style={{ fontSize: 24, fontWeight: 700 }}>
@@ -357,8 +1031,71 @@ export default function History() {
         <div style={{ marginTop: 6 }}>最重要未達日数：{summary.coreMissDays}</div>
         <div style={{ marginTop: 6 }}>対象日数：{summary.count}</div>
         <div style={{ marginTop: 6 }}>除外指定日数：{summary.excludedDays}</div>
+        {summary.plan.plannedDays > 0 && (
+          <div style={{ marginTop: 10, paddingTop: 8, borderTop: "1px dashed #ddd" }}>
+            <div style={{ fontWeight: 700 }}>予定と実績</div>
+            <div style={{ marginTop: 6 }}>
+              目標達成：{summary.plan.metDays}/{summary.plan.targetDays}日
+              {summary.plan.rate != null ? `（${Math.round(summary.plan.rate * 100)}%）` : ""}
+            </div>
+            {summary.plan.avgGap != null && (
+              <div style={{ marginTop: 6 }}>
+                スコア目標との差（平均）：{summary.plan.avgGap >= 0 ? "+" : ""}
+                {summary.plan.avgGap.toFixed(1)}
+              </div>
+            )}
+            <div style={{ marginTop: 6 }}>
+              予定を立てた日数：{summary.plan.plannedDays}（うち休息日 {summary.plan.restDays}）
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* ===== 週別・月別の集計 ===== */}
+      <PeriodReports tasks={tasks} profiles={profiles} includeExcluded={includeExcluded} />
+
+      {/* ===== 期間でまとめて除外 ===== */}
+      <ExcludeRanges />
+
+      {/* ===== 週N回タスク ===== */}
+      {weeklyRows.length > 0 && (
+        <div style={{ marginTop: 14, padding: 12, border: "1px solid #ddd", borderRadius: 12 }}>
+          <div style={{ fontWeight: 700, marginBottom: 8 }}>週N回タスクの達成</div>
+          <div style={{ display: "grid", gap: 8 }}>
+            {weeklyRows.map((w) => (
+              <div key={w.key}>
+                <div>
+                  <b>{w.key}</b>
+                  <span style={{ marginLeft: 8, opacity: 0.8 }}>
+                    {fmtMMDD(w.weekStart)}〜{fmtMMDD(w.weekEnd)} / 達成 {w.achievedCount}/{w.progress.length} / +
+                    {w.weeklyScore.toFixed(1)}
+                  </span>
+                </div>
+                <div style={{ display: "flex", gap: 12, flexWrap: "wrap", fontSize: 14 }}>
+                  {w.progress.map((p) => (
+                    <span key={p.task.id} style={{ opacity: p.achieved ? 1 : 0.7 }}>
+                      {p.task.title} {p.done}/{p.target}
+                      {p.achieved ? " ✓" : ""}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* ===== 連続達成 ===== */}
+      <StreakSummary tasks={tasks} profiles={profiles} />
+
+      {/* ===== 年間ヒートマップ ===== */}
+      <YearHeatmap
+        tasks={tasks}
+        profiles={profiles}
+        years={Array.from(new Set(months.map((m) => m.slice(0, 4))))}
+        onOpenDay={onOpenDay}
+      />
+
       {/* ===== 日別一覧 ===== */}
       <h2 style={{ marginTop: 18 }}>日別一覧</h2>
 
@@ -377,7 +1114,17 @@ export default function History() {
               }}
             >
               <div style={{ display: "flex", justifyContent: "space-between", gap: 10 }}>
-                <div style={{ fontWeight: 700 }}>{r.date}</div>
+                <div style={{ fontWeight: 700 }}>
+                  {r.date}
+                  {r.lateBy != null ? (
+                    <span
+                      style={{ marginLeft: 8, fontSize: 12, fontWeight: 400, color: "#b26a00" }}
+                      title={`${lateEditDays}日より後に変更されています`}
+                    >
+                      後から編集（{r.lateBy}日後）
+                    </span>
+                  ) : null}
+                </div>
                 <div style={{ opacity: 0.8, fontSize: 12 }}>{fmtUpdatedAt(r.updatedAt)}</div>
               </div>
 
@@ -394,7 +1141,9 @@ export default function History() {
                 <div>
                   rawScore：<b>{r.rawScore}</b>
                   {r.excludeFromStats ? (
-                    <span style={{ marginLeft: 8, opacity: 0.7 }}>（除外）</span>
+                    <span style={{ marginLeft: 8, opacity: 0.7 }}>
+                      （除外{r.excludeReason ? `：${r.excludeReason}` : ""}）
+                    </span>
                   ) : null}
                 </div>
 
@@ -412,9 +1161,62 @@ export default function History() {
                     Rank {r.rank}
                   </span>
                 ) : null}
+
+                {r.plan?.restDay ? <span style={{ fontSize: 14, opacity: 0.8 }}>休息日</span> : null}
+                {r.plan?.target ? (
+                  <span style={{ fontSize: 14, color: r.planMet ? "#239a3b" : "#b26a00" }}>
+                    目標 {describeTarget(r.plan.target)}：{r.planMet ? "達成" : "未達"}
+                  </span>
+                ) : null}
               </div>
 
               {r.note ? <div style={{ marginTop: 8, whiteSpace: "pre-wrap" }}>{r.note}</div> : null}
+
+              {r.adHocTasks.length > 0 ? (
+                <ul style={{ margin: "8px 0 0", paddingLeft: 20, fontSize: 13 }}>
+                  {r.adHocTasks.map((t) => (
+                    <li key={t.id}>
+                      {isTaskDone(t, r.checks[t.id]) ? "✅" : "⬜"} {t.title}
+                      <span style={{ marginLeft: 6, opacity: 0.7 }}>
+                        単発・{t.isCore ? "最重要" : `+${t.points}`}
+                        {t.carriedTo ? `・${t.carriedTo} に繰り越し` : ""}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+
+              {r.audit.length > 0 ? (
+                <div style={{ marginTop: 8 }}>
+                  <button
+                    onClick={() => setAuditOpen((cur) => (cur === r.date ? null : r.date))}
+                    style={{ padding: "2px 8px", fontSize: 12 }}
+                  >
+                    変更履歴（{r.audit.length}）{auditOpen === r.date ? "▲" : "▼"}
+                  </button>
+                  {auditOpen === r.date ? (
+                    <ul style={{ margin: "6px 0 0", paddingLeft: 20, fontSize: 13 }}>
+                      {r.audit.map((e, i) => {
+                        const delay = editDelayDays(r.date, e);
+                        return (
+                          <li key={i}>
+                            <span style={{ opacity: 0.7 }}>{fmtUpdatedAt(e.at)}</span>{" "}
+                            {describeAudit(
+                              e,
+                              (id) =>
+                                [...r.dayTasks, ...r.adHocTasks].find((t) => t.id === id) ??
+                                tasks.find((t) => t.id === id)
+                            )}
+                            {delay > lateEditDays ? (
+                              <span style={{ marginLeft: 6, color: "#b26a00" }}>（{delay}日後）</span>
+                            ) : null}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  ) : null}
+                </div>
+              ) : null}
             </div>
           ))}
         </div>
@@ -0,0 +1,97 @@
+// src/pages/RankSimulator.tsx
+import { useMemo, useState } from "react";
+import type { DayLog, ScoringProfile, Task, TaskId } from "../domain/types";
+import { calcScore } from "../domain/scoring";
+import { simulateRanks, uncheckedTasks, withHypothetical } from "../domain/simulate";
+
+function taskNames(tasks: Task[]): string {
+  return tasks.map((t) => `「${t.title}」`).join("");
+}
+
+// 次のランクまでの試算（仮のチェックは保存しない / 日を変えたら作り直す）
+export default function RankSimulator({
+  tasks,
+  log,
+  profile,
+}: {
+  tasks: Task[];
+  log: DayLog;
+  profile: ScoringProfile;
+}) {
+  const [picked, setPicked] = useState<TaskId[]>([]);
+
+  const candidates = useMemo(() => uncheckedTasks(tasks, log), [tasks, log]);
+  // 実際に達成済みになったものは仮チェックから外れる
+  const hypothetical = useMemo(() => candidates.filter((t) => picked.includes(t.id)), [candidates, picked]);
+
+  const preview = useMemo(() => withHypothetical(log, hypothetical), [log, hypothetical]);
+  const score = useMemo(() => calcScore(tasks, preview, profile), [tasks, preview, profile]);
+  const sim = useMemo(() => simulateRanks(tasks, preview, profile), [tasks, preview, profile]);
+
+  function toggle(id: TaskId, on: boolean) {
+    setPicked((cur) => (on ? [...cur.filter((x) => x !== id), id] : cur.filter((x) => x !== id)));
+  }
+
+  function tryPath(bonus: Task[]) {
+    setPicked((cur) => [...new Set([...cur, ...sim.missingCore.map((t) => t.id), ...bonus.map((t) => t.id)])]);
+  }
+
+  return (
+    <div style={{ padding: 12, border: "1px solid #ccc", marginBottom: 16 }}>
+      <h2 style={{ marginTop: 0 }}>次のランクまで</h2>
+
+      <div style={{ fontSize: 18 }}>
+        もしも：{score.showRank ? `${score.rank} ${score.rawScore.toFixed(1)}` : score.rawScore.toFixed(1)}
+        {hypothetical.length > 0 && (
+          <button onClick={() => setPicked([])} style={{ marginLeft: 8, padding: "2px 8px", fontSize: 14 }}>
+            仮のチェックを外す
+          </button>
+        )}
+      </div>
+
+      {sim.missingCore.length > 0 && (
+        <div style={{ marginTop: 6 }}>
+          ランク表示まで：最重要あと{sim.missingCore.length}つ {taskNames(sim.missingCore)}
+        </div>
+      )}
+
+      <ul style={{ margin: "8px 0 0", paddingLeft: 20 }}>
+        {sim.paths.map((p) => (
+          <li key={p.rank} style={{ marginTop: 4 }}>
+            <b>{p.rank}</b>（{p.min}点）：
+            {p.reached ? (
+              "達成済み"
+            ) : !p.reachable ? (
+              <span style={{ opacity: 0.7 }}>今日の残りのタスクでは届きません</span>
+            ) : (
+              <>
+                {p.bonus.length === 0 ? "最重要だけで届きます" : `加点 ${taskNames(p.bonus)}`}
+                <span style={{ marginLeft: 6, opacity: 0.7 }}>→ {p.score.rawScore.toFixed(1)}点</span>
+                <button onClick={() => tryPath(p.bonus)} style={{ marginLeft: 8, padding: "2px 8px" }}>
+                  試す
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {candidates.length > 0 && (
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap", marginTop: 10, fontSize: 14 }}>
+          {candidates.map((t) => (
+            <label key={t.id}>
+              <input
+                type="checkbox"
+                checked={picked.includes(t.id)}
+                onChange={(e) => toggle(t.id, e.target.checked)}
+              />
+              {t.title}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <small style={{ opacity: 0.7 }}>※ここのチェックは試算用で、記録には残りません</small>
+    </div>
+  );
+}
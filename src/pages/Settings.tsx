@@ -0,0 +1,571 @@
+// src/pages/Settings.tsx
+import { useMemo, useState } from "react";
+import type { DayISO, DayLog, ScoringProfile } from "../domain/types";
+import { diffDayLogMaps, resolveDayLog, type DayDiff, type MergeStrategy } from "../domain/merge";
+import { findOrphanChecks, purgeCheck, reattachCheck } from "../domain/maintenance";
+import { addProfileVersion, DEFAULT_SCORING_PROFILE, profileForDay } from "../domain/scoring";
+import {
+  applyBackup,
+  backupFileName,
+  buildBackup,
+  flattenDayLogs,
+  parseBackup,
+  type BackupFile,
+} from "../infra/backup";
+import { saveAppSettings, saveScoringProfiles } from "../infra/storage";
+import {
+  useAppSettings,
+  useDayLogMap,
+  useRepository,
+  useScoringProfiles,
+  useTasks,
+  useTodayISO,
+} from "../state/hooks";
+import { updateDayLogsWithUndo } from "../state/undo";
+import { downloadText } from "../utils/download";
+
+const STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  replace: "置き換え（今のデータを消してファイルの内容にする）",
+  "merge-newer": "マージ（同じ日は更新日時が新しい方）",
+  "keep-existing": "追加のみ（同じ日は今のデータを残す）",
+};
+
+const STATUS_LABELS: Record<DayDiff["status"], string> = {
+  added: "ファイルのみ",
+  removed: "今のデータのみ",
+  same: "同じ",
+  changed: "内容が違う",
+};
+
+function fmtDateTime(ts?: number): string {
+  if (!ts) return "-";
+  const d = new Date(ts);
+  const y = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  const hh = String(d.getHours()).padStart(2, "0");
+  const mi = String(d.getMinutes()).padStart(2, "0");
+  return `${y}/${mm}/${dd} ${hh}:${mi}`;
+}
+
+function countChecks(log?: DayLog): string {
+  if (!log) return "-";
+  return String(Object.values(log.checks).filter(Boolean).length);
+}
+
+// 取り込み後にその日がどうなるか
+function resultLabel(diff: DayDiff, strategy: MergeStrategy): string {
+  const next = resolveDayLog(diff, strategy);
+  if (!next) return "削除";
+  if (next === diff.current) return "今のまま";
+  return "ファイルの内容";
+}
+
+// 保存できない設定ならエラーメッセージ
+function validateProfile(p: ScoringProfile): string {
+  if (!(p.corePool > 0)) return "最重要の合計点は1以上にしてください。";
+  if (!(p.missPenalty >= 0)) return "未達ペナルティは0以上にしてください。";
+  const names = [p.baseRank, ...p.tiers.map((t) => t.name)].map((n) => n.trim());
+  if (names.some((n) => !n)) return "ランク名を入れてください。";
+  if (new Set(names).size !== names.length) return "ランク名が重複しています。";
+  if (p.tiers.some((t) => !Number.isFinite(t.min))) return "しきい値は数値で入れてください。";
+  return "";
+}
+
+function profileSummary(p: ScoringProfile): string {
+  const tiers = p.tiers
+    .slice()
+    .sort((a, b) => a.min - b.min)
+    .map((t) => `${t.name}:${t.min}`)
+    .join(" / ");
+  return `最重要 ${p.corePool}点・未達 -${p.missPenalty}・${p.baseRank} / ${tiers}`;
+}
+
+// 1日の区切り（選べる時刻：0:00〜6:00 を30分刻み）
+const DAY_START_OPTIONS = Array.from({ length: 13 }, (_, i) => i * 30);
+
+function fmtMinutes(m: number): string {
+  return `${Math.floor(m / 60)}:${String(m % 60).padStart(2, "0")}`;
+}
+
+function DateSettingsEditor() {
+  const settings = useAppSettings();
+
+  return (
+    <div style={{ padding: 12, border: "1px solid #ccc", borderRadius: 8, marginBottom: 16 }}>
+      <h2 style={{ marginTop: 0 }}>日付の扱い</h2>
+      <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <span>日付が変わる時刻</span>
+        <select
+          value={settings.dayStartMinutes}
+          onChange={(e) => saveAppSettings({ ...settings, dayStartMinutes: Number(e.target.value) })}
+          style={{ padding: 6 }}
+        >
+          {DAY_START_OPTIONS.map((m) => (
+            <option key={m} value={m}>
+              {fmtMinutes(m)}
+              {m === 0 ? "（通常）" : ""}
+            </option>
+          ))}
+        </select>
+      </label>
+      <small style={{ display: "block", marginTop: 6, opacity: 0.7 }}>
+        この時刻より前のチェックは前日の記録になります（例：4:00 にすると深夜1時は前日扱い）。
+      </small>
+
+      <label style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 12 }}>
+        <span>「後から編集」の印を付けるのは</span>
+        <input
+          type="number"
+          min={0}
+          value={settings.lateEditDays}
+          onChange={(e) =>
+            saveAppSettings({ ...settings, lateEditDays: Math.max(0, Math.round(Number(e.target.value) || 0)) })
+          }
+          style={{ padding: 6, width: 70 }}
+        />
+        <span>日より後の変更</span>
+      </label>
+      <small style={{ display: "block", marginTop: 6, opacity: 0.7 }}>
+        History の変更履歴で、その日から指定日数より後に変えた記録に印を付けます。
+      </small>
+    </div>
+  );
+}
+
+function ScoringProfileEditor() {
+  const today = useTodayISO();
+  const versions = useScoringProfiles();
+  const [draft, setDraft] = useState<ScoringProfile>(() => profileForDay(versions, today));
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState("");
+
+  function patch(p: Partial<ScoringProfile>) {
+    setError("");
+    setSaved("");
+    setDraft((d) => ({ ...d, ...p }));
+  }
+
+  function save(applyToPast: boolean) {
+    const profile: ScoringProfile = {
+      ...draft,
+      baseRank: draft.baseRank.trim(),
+      tiers: draft.tiers.map((t) => ({ ...t, name: t.name.trim() })).sort((a, b) => a.min - b.min),
+    };
+    const msg = validateProfile(profile);
+    if (msg) {
+      setError(msg);
+      return;
+    }
+
+    if (applyToPast) {
+      const ok = window.confirm("過去の記録のスコア・ランクもこの設定で計算し直します。よろしいですか？");
+      if (!ok) return;
+    }
+
+    saveScoringProfiles(addProfileVersion(versions, profile, applyToPast ? undefined : today));
+    setSaved(applyToPast ? "全期間に適用しました。" : `${today} から適用しました。`);
+  }
+
+  return (
+    <div style={{ padding: 12, border: "1px solid #ccc", borderRadius: 8, marginBottom: 16 }}>
+      <h2 style={{ marginTop: 0 }}>スコア設定</h2>
+
+      {error && (
+        <div style={{ padding: 10, border: "1px solid #f2c", borderRadius: 8, marginBottom: 12 }}>{error}</div>
+      )}
+      {saved && <div style={{ marginBottom: 12, opacity: 0.85 }}>{saved}</div>}
+
+      <div style={{ display: "grid", gap: 10 }}>
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <span>最重要の合計点</span>
+          <input
+            type="number"
+            min={1}
+            value={draft.corePool}
+            onChange={(e) => patch({ corePool: Number(e.target.value) })}
+            style={{ padding: 6, width: 90 }}
+          />
+        </label>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <span>未達の最重要1つあたりの減点</span>
+          <input
+            type="number"
+            min={0}
+            value={draft.missPenalty}
+            onChange={(e) => patch({ missPenalty: Number(e.target.value) })}
+            style={{ padding: 6, width: 90 }}
+          />
+        </label>
+
+        <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            type="checkbox"
+            checked={draft.rankRequiresAllCore}
+            onChange={(e) => patch({ rankRequiresAllCore: e.target.checked })}
+          />
+          <span>最重要を全部達成した日だけランクを表示する</span>
+        </label>
+
+        <div style={{ display: "grid", gap: 6 }}>
+          <span>ランク（しきい値以上でそのランク）</span>
+          <label style={{ display: "flex", gap: 8, alignItems: "center" }}>
+            <input
+              value={draft.baseRank}
+              onChange={(e) => patch({ baseRank: e.target.value })}
+              style={{ padding: 6, width: 90 }}
+            />
+            <small style={{ opacity: 0.7 }}>どのしきい値にも届かないとき</small>
+          </label>
+
+          {draft.tiers.map((t, i) => (
+            <div key={i} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <input
+                value={t.name}
+                onChange={(e) =>
+                  patch({ tiers: draft.tiers.map((x, j) => (j === i ? { ...x, name: e.target.value } : x)) })
+                }
+                style={{ padding: 6, width: 90 }}
+              />
+              <input
+                type="number"
+                value={t.min}
+                onChange={(e) =>
+                  patch({ tiers: draft.tiers.map((x, j) => (j === i ? { ...x, min: Number(e.target.value) } : x)) })
+                }
+                style={{ padding: 6, width: 90 }}
+              />
+              <span>点以上</span>
+              <button
+                onClick={() => patch({ tiers: draft.tiers.filter((_, j) => j !== i) })}
+                style={{ padding: "4px 8px" }}
+              >
+                削除
+              </button>
+            </div>
+          ))}
+
+          <div>
+            <button
+              onClick={() => {
+                const top = Math.max(100, ...draft.tiers.map((t) => t.min));
+                patch({ tiers: [...draft.tiers, { name: "", min: top + 30 }] });
+              }}
+              style={{ padding: "4px 8px" }}
+            >
+              ランクを追加
+            </button>
+          </div>
+        </div>
+
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <button onClick={() => save(false)} style={{ padding: "8px 12px" }}>
+            今日から適用
+          </button>
+          <button onClick={() => save(true)} style={{ padding: "8px 12px" }}>
+            過去の記録にも適用
+          </button>
+          <button onClick={() => patch(DEFAULT_SCORING_PROFILE)} style={{ padding: "8px 12px" }}>
+            既定値に戻す
+          </button>
+        </div>
+
+        <small style={{ opacity: 0.7 }}>
+          ※「今日から適用」は過去の日のスコア・ランクを変えません（その日に有効だった設定で計算します）。
+        </small>
+
+        {versions.length > 0 && (
+          <div>
+            <div style={{ fontWeight: 700, marginBottom: 4 }}>適用履歴</div>
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+              {versions.map((v, i) => (
+                <li key={i}>
+                  {v.effectiveFrom ? `${v.effectiveFrom}から` : "最初から"}：{profileSummary(v.profile)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// 持ち主のいないチェック（削除されたタスクの id など）を付け替える / 消す
+function OrphanCheckMaintenance() {
+  const repo = useRepository();
+  const tasks = useTasks();
+  const logs = useDayLogMap();
+  const orphans = useMemo(() => findOrphanChecks(logs, tasks), [logs, tasks]);
+
+  // 付け替え先（orphan id → task id）
+  const [targets, setTargets] = useState<Record<string, string>>({});
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  // まとめて1回で書き込み、元に戻すで取り消せるようにする
+  async function apply(dates: DayISO[], label: string, fix: (log: DayLog) => DayLog) {
+    setBusy(true);
+    try {
+      await updateDayLogsWithUndo(repo, dates, fix, label);
+      setMessage(`${label}しました。`);
+    } catch (e) {
+      setMessage(`${label}できませんでした：${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ padding: 12, border: "1px solid #ccc", borderRadius: 8, marginBottom: 16 }}>
+      <h2 style={{ marginTop: 0 }}>メンテナンス：持ち主のいないチェック</h2>
+      <div style={{ opacity: 0.8, marginBottom: 10 }}>
+        どのタスクにも結び付かないチェック（昔削除したタスクなど）です。別のタスクに付け替えるか、消すことができます。
+      </div>
+      {message && <div style={{ marginBottom: 10, opacity: 0.85 }}>{message}</div>}
+
+      {orphans.length === 0 ? (
+        <div style={{ opacity: 0.8 }}>見つかりませんでした。</div>
+      ) : (
+        <div style={{ display: "grid", gap: 10 }}>
+          {orphans.map((o) => {
+            const target = tasks.find((t) => t.id === targets[o.taskId]);
+            const first = o.dates[0];
+            const last = o.dates[o.dates.length - 1];
+            return (
+              <div key={o.taskId} style={{ padding: 10, border: "1px solid #eee", borderRadius: 8 }}>
+                <div>
+                  <code>{o.taskId}</code>
+                  <span style={{ marginLeft: 8, opacity: 0.8 }}>
+                    {o.dates.length}日分（{first === last ? first : `${first}〜${last}`}）
+                  </span>
+                </div>
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 6 }}>
+                  <select
+                    value={target?.id ?? ""}
+                    onChange={(e) => setTargets((p) => ({ ...p, [o.taskId]: e.target.value }))}
+                    style={{ padding: 6 }}
+                  >
+                    <option value="">付け替え先を選ぶ</option>
+                    {tasks.map((t) => (
+                      <option key={t.id} value={t.id}>
+                        {t.title}
+                        {t.archivedAt ? "（アーカイブ）" : ""}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    disabled={!target || busy}
+                    onClick={() => {
+                      if (!target) return;
+                      void apply(o.dates, `${o.dates.length}日分を「${target.title}」に付け替え`, (log) =>
+                        reattachCheck(log, o.taskId, target)
+                      );
+                    }}
+                    style={{ padding: "6px 10px" }}
+                  >
+                    付け替える
+                  </button>
+                  <button
+                    disabled={busy}
+                    onClick={() => {
+                      if (!window.confirm(`${o.dates.length}日分のチェックを消します。よろしいですか？`)) return;
+                      void apply(o.dates, `${o.dates.length}日分のチェックを削除`, (log) => purgeCheck(log, o.taskId));
+                    }}
+                    style={{ padding: "6px 10px" }}
+                  >
+                    消す
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Settings() {
+  const [imported, setImported] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState("");
+  const [strategy, setStrategy] = useState<MergeStrategy>("merge-newer");
+  const [showSame, setShowSame] = useState(false);
+  const [done, setDone] = useState("");
+
+  const repo = useRepository();
+  // 差分の確認にだけ使うので、ファイルを選んだときだけ全期間を読む
+  const currentLogs = useDayLogMap(imported != null);
+  const diffs = useMemo(() => {
+    if (!imported) return [];
+    return diffDayLogMaps(currentLogs, flattenDayLogs(imported.dayLogs));
+  }, [imported, currentLogs]);
+
+  const visibleDiffs = useMemo(
+    () => (showSame ? diffs : diffs.filter((d) => d.status !== "same")),
+    [diffs, showSame]
+  );
+
+  const counts = useMemo(() => {
+    const c: Record<DayDiff["status"], number> = { added: 0, removed: 0, same: 0, changed: 0 };
+    for (const d of diffs) c[d.status]++;
+    return c;
+  }, [diffs]);
+
+  async function exportJson() {
+    const data = await buildBackup(repo);
+    downloadText(backupFileName(data), JSON.stringify(data, null, 2), "application/json");
+  }
+
+  async function onPickFile(file: File | undefined) {
+    setImported(null);
+    setError("");
+    setDone("");
+    if (!file) return;
+
+    setFileName(file.name);
+    const result = parseBackup(await file.text());
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setImported(result.data);
+  }
+
+  async function runImport() {
+    if (!imported) return;
+
+    const ok = window.confirm(
+      strategy === "replace"
+        ? "今のデータをすべて消して、ファイルの内容に置き換えます。よろしいですか？"
+        : "ファイルの内容を取り込みます。よろしいですか？"
+    );
+    if (!ok) return;
+
+    try {
+      await applyBackup(repo, imported, strategy);
+    } catch (e) {
+      setError(`取り込みに失敗しました：${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    setImported(null);
+    setDone(`${fileName} を取り込みました。`);
+  }
+
+  return (
+    <div style={{ maxWidth: 760, margin: "0 auto", padding: 16 }}>
+      <h1>Settings</h1>
+
+      <DateSettingsEditor />
+
+      <ScoringProfileEditor />
+
+      <OrphanCheckMaintenance />
+
+      {/* ===== バックアップ ===== */}
+      <div style={{ padding: 12, border: "1px solid #ccc", borderRadius: 8, marginBottom: 16 }}>
+        <h2 style={{ marginTop: 0 }}>バックアップ（書き出し）</h2>
+        <div style={{ opacity: 0.8, marginBottom: 10 }}>
+          タスクとすべての記録を1つのJSONファイルに保存します。
+        </div>
+        <button onClick={exportJson} style={{ padding: "8px 12px" }}>
+          JSONを書き出す
+        </button>
+      </div>
+
+      <div style={{ padding: 12, border: "1px solid #ccc", borderRadius: 8, marginBottom: 16 }}>
+        <h2 style={{ marginTop: 0 }}>バックアップ（読み込み）</h2>
+
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={(e) => void onPickFile(e.target.files?.[0])}
+        />
+
+        {error && (
+          <div style={{ padding: 10, border: "1px solid #f2c", borderRadius: 8, marginTop: 12 }}>
+            {fileName}：{error}
+          </div>
+        )}
+        {done && <div style={{ marginTop: 12, opacity: 0.85 }}>{done}</div>}
+
+        {imported && (
+          <div style={{ marginTop: 12, display: "grid", gap: 10 }}>
+            <div style={{ opacity: 0.85 }}>
+              {fileName}（書き出し：{fmtDateTime(imported.exportedAt)} / タスク {imported.tasks.length}件 / 記録{" "}
+              {diffs.filter((d) => d.incoming).length}日）
+            </div>
+
+            <div>
+              ファイルのみ：{counts.added} / 内容が違う：{counts.changed} / 今のデータのみ：{counts.removed} / 同じ：
+              {counts.same}
+            </div>
+
+            <div style={{ display: "grid", gap: 4 }}>
+              {(Object.keys(STRATEGY_LABELS) as MergeStrategy[]).map((s) => (
+                <label key={s} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <input
+                    type="radio"
+                    name="import-strategy"
+                    checked={strategy === s}
+                    onChange={() => setStrategy(s)}
+                  />
+                  {STRATEGY_LABELS[s]}
+                </label>
+              ))}
+            </div>
+
+            <label style={{ display: "flex", gap: 6, alignItems: "center" }}>
+              <input type="checkbox" checked={showSame} onChange={(e) => setShowSame(e.target.checked)} />
+              同じ日も表示する
+            </label>
+
+            {visibleDiffs.length === 0 ? (
+              <div style={{ opacity: 0.8 }}>差分はありません。</div>
+            ) : (
+              <div style={{ maxHeight: 320, overflow: "auto", border: "1px solid #eee" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", borderBottom: "1px solid #ddd" }}>
+                      <th style={{ padding: 6 }}>日付</th>
+                      <th style={{ padding: 6 }}>差分</th>
+                      <th style={{ padding: 6 }}>今（チェック / 更新）</th>
+                      <th style={{ padding: 6 }}>ファイル（チェック / 更新）</th>
+                      <th style={{ padding: 6 }}>取り込み後</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleDiffs.map((d) => (
+                      <tr key={d.date} style={{ borderBottom: "1px solid #f2f2f2" }}>
+                        <td style={{ padding: 6 }}>{d.date}</td>
+                        <td style={{ padding: 6 }}>{STATUS_LABELS[d.status]}</td>
+                        <td style={{ padding: 6 }}>
+                          {countChecks(d.current)} / {fmtDateTime(d.current?.updatedAt)}
+                        </td>
+                        <td style={{ padding: 6 }}>
+                          {countChecks(d.incoming)} / {fmtDateTime(d.incoming?.updatedAt)}
+                        </td>
+                        <td style={{ padding: 6 }}>{resultLabel(d, strategy)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div style={{ display: "flex", gap: 8 }}>
+              <button onClick={runImport} style={{ padding: "8px 12px" }}>
+                取り込む
+              </button>
+              <button onClick={() => setImported(null)} style={{ padding: "8px 12px" }}>
+                やめる
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+// src/pages/TaskStats.tsx
+import { useMemo } from "react";
+import type { TaskId } from "../domain/types";
+import { WEEKDAY_LABELS } from "../domain/schedule";
+import { calcTaskStats } from "../domain/taskStats";
+import { useDayLogMap, useTasks, useTodayISO } from "../state/hooks";
+
+import { ResponsiveContainer, LineChart, Line, YAxis, Tooltip } from "recharts";
+
+function fmtRate(rate: number | null): string {
+  return rate == null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+// タスク1つの統計（Tasks の各行から開く）
+export default function TaskStats({ taskId }: { taskId: TaskId }) {
+  const tasks = useTasks();
+  const logs = useDayLogMap();
+  const today = useTodayISO();
+
+  const stats = useMemo(() => calcTaskStats(taskId, logs, tasks, today), [taskId, logs, tasks, today]);
+
+  const chartData = stats.sparkline.map((p) => ({
+    date: p.date,
+    ratio: p.ratio == null ? null : Math.round(p.ratio * 100),
+  }));
+
+  return (
+    <div style={{ padding: 10, border: "1px solid #eee", borderRadius: 8, display: "grid", gap: 8 }}>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap" }}>
+        {stats.rates.map((r) => (
+          <div key={r.days}>
+            <div style={{ fontSize: 12, opacity: 0.7 }}>直近{r.days}日</div>
+            <b>{fmtRate(r.rate)}</b>
+            <span style={{ marginLeft: 4, fontSize: 12, opacity: 0.7 }}>
+              （{r.done}/{r.total}）
+            </span>
+          </div>
+        ))}
+        <div>
+          <div style={{ fontSize: 12, opacity: 0.7 }}>連続</div>
+          <b>{stats.currentStreak}日</b>
+          <span style={{ marginLeft: 4, fontSize: 12, opacity: 0.7 }}>（最長 {stats.longestStreak}日）</span>
+        </div>
+      </div>
+
+      {/* 直近30日の達成率（対象外の日は線を切る） */}
+      <div style={{ width: "100%", height: 60 }}>
+        <ResponsiveContainer>
+          <LineChart data={chartData} margin={{ top: 4, right: 4, bottom: 4, left: 4 }}>
+            <YAxis hide domain={[0, 100]} />
+            <Tooltip formatter={(v) => `${v}%`} labelFormatter={(_, p) => p?.[0]?.payload?.date ?? ""} />
+            <Line type="monotone" dataKey="ratio" dot={false} connectNulls={false} isAnimationActive={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* 曜日別（全期間） */}
+      <div style={{ display: "flex", gap: 6, flexWrap: "wrap", fontSize: 13 }}>
+        {stats.byWeekday.map((w, i) => {
+          const rate = w.total > 0 ? w.done / w.total : null;
+          return (
+            <div
+              key={i}
+              title={`${w.done}/${w.total}`}
+              style={{
+                minWidth: 44,
+                padding: "4px 6px",
+                borderRadius: 6,
+                textAlign: "center",
+                background: rate == null ? "#f7f7f7" : `rgba(35, 154, 59, ${0.1 + rate * 0.6})`,
+              }}
+            >
+              <div>{WEEKDAY_LABELS[i]}</div>
+              <b>{fmtRate(rate)}</b>
+            </div>
+          );
+        })}
+      </div>
+
+      <small style={{ opacity: 0.7 }}>※運用中で実施日の日だけを数えます（除外日は数えません）</small>
+    </div>
+  );
+}
@@ -1,7 +1,12 @@
 // src/pages/Tasks.tsx
-import { useEffect, useMemo, useState } from "react";
-import type { Task, TaskId } from "../domain/types";
-import { loadTasks, saveTasks } from "../infra/storage";
+import { useMemo, useState } from "react";
+import type { DayISO, Recurrence, Task, TaskId } from "../domain/types";
+import { recurrenceLabel, WEEKDAY_LABELS } from "../domain/schedule";
+import { categoryLabel, categoryOf, listCategories, listTags, parseTags } from "../domain/category";
+import { useRepository, useTasks } from "../state/hooks";
+import { saveInBackground, saveTasksWithUndo } from "../state/undo";
+import TaskStats from "./TaskStats";
+import { todayKey } from "../utils/date";
 
 type DraftTask = {
   id?: TaskId;
@@ -9,10 +14,30 @@ type DraftTask = {
   points: number;
   isCore: boolean;
   isActive: boolean;
+  recurrence: Recurrence;
+  category: string;
+  tags: string; // カンマ区切りで入力
+  weeklyTarget: number; // 0 = 実施日ごとに評価
+  // 量タスク（target 0 = チェックだけ）
+  unit: string;
+  target: number;
+  minPercent: number; // 0〜100
 };
 
 function newDraft(): DraftTask {
-  return { title: "", points: 1, isCore: false, isActive: true };
+  return {
+    title: "",
+    points: 1,
+    isCore: false,
+    isActive: true,
+    recurrence: { kind: "daily" },
+    category: "",
+    tags: "",
+    weeklyTarget: 0,
+    unit: "",
+    target: 0,
+    minPercent: 0,
+  };
 }
 
 function cloneTaskToDraft(t: Task): DraftTask {
@@ -22,9 +47,139 @@ function cloneTaskToDraft(t: Task): DraftTask {
     points: t.points,
     isCore: t.isCore,
     isActive: t.isActive,
+    recurrence: t.recurrence ?? { kind: "daily" },
+    category: t.category ?? "",
+    tags: (t.tags ?? []).join(", "),
+    weeklyTarget: t.weeklyTarget ?? 0,
+    unit: t.unit ?? "",
+    target: t.target ?? 0,
+    minPercent: Math.round((t.minRatio ?? 0) * 100),
+  };
+}
+
+// 量タスクの項目（チェックだけのタスクなら全部 undefined にして保存しない）
+function quantityFields(d: DraftTask): Pick<Task, "unit" | "target" | "minRatio"> {
+  if (!(d.target > 0)) return { unit: undefined, target: undefined, minRatio: undefined };
+
+  const minPercent = Math.min(100, Math.max(0, Math.round(d.minPercent) || 0));
+  return {
+    unit: d.unit.trim() || undefined,
+    target: d.target,
+    minRatio: minPercent > 0 ? minPercent / 100 : undefined,
   };
 }
 
+// 分野・タグ（空なら保存しない）
+function categoryFields(d: DraftTask): Pick<Task, "category" | "tags"> {
+  const tags = parseTags(d.tags);
+  return { category: d.category.trim() || undefined, tags: tags.length > 0 ? tags : undefined };
+}
+
+// 種類を切り替えたときの初期値
+function defaultRecurrence(kind: Recurrence["kind"]): Recurrence {
+  switch (kind) {
+    case "daily":
+      return { kind: "daily" };
+    case "weekdays":
+      return { kind: "weekdays", days: [1, 3, 5] };
+    case "interval":
+      return { kind: "interval", every: 2, start: todayKey() as DayISO };
+    case "range":
+      return { kind: "range", from: todayKey() as DayISO };
+  }
+}
+
+// 保存できない設定ならエラーメッセージ
+function validateRecurrence(r: Recurrence): string {
+  if (r.kind === "weekdays" && r.days.length === 0) return "曜日を1つ以上選んでください。";
+  if (r.kind === "interval" && (!r.start || !(r.every >= 1))) return "開始日と間隔（1日以上）を入れてください。";
+  if (r.kind === "range" && r.from && r.to && r.from > r.to) return "期間の開始日が終了日より後になっています。";
+  return "";
+}
+
+// 毎日なら保存しない（既存データと同じ形にする）
+function normalizeRecurrence(r: Recurrence): Recurrence | undefined {
+  if (r.kind === "daily") return undefined;
+  if (r.kind === "interval") return { ...r, every: Math.max(1, Math.round(r.every)) };
+  return r;
+}
+
+function RecurrenceEditor({ value, onChange }: { value: Recurrence; onChange: (r: Recurrence) => void }) {
+  return (
+    <div style={{ display: "grid", gap: 6 }}>
+      <select
+        value={value.kind}
+        onChange={(e) => onChange(defaultRecurrence(e.target.value as Recurrence["kind"]))}
+        style={{ padding: 8 }}
+      >
+        <option value="daily">毎日</option>
+        <option value="weekdays">曜日指定</option>
+        <option value="interval">N日ごと</option>
+        <option value="range">期間指定</option>
+      </select>
+
+      {value.kind === "weekdays" && (
+        <div style={{ display: "flex", gap: 10, flexWrap: "wrap" }}>
+          {WEEKDAY_LABELS.map((label, d) => (
+            <label key={d} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+              <input
+                type="checkbox"
+                checked={value.days.includes(d)}
+                onChange={(e) =>
+                  onChange({
+                    kind: "weekdays",
+                    days: e.target.checked ? [...value.days, d].sort() : value.days.filter((x) => x !== d),
+                  })
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {value.kind === "interval" && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <input
+            type="date"
+            value={value.start}
+            onChange={(e) => onChange({ ...value, start: e.target.value as DayISO })}
+            style={{ padding: 6 }}
+          />
+          <span>から</span>
+          <input
+            type="number"
+            min={1}
+            value={value.every}
+            onChange={(e) => onChange({ ...value, every: Number(e.target.value) })}
+            style={{ padding: 6, width: 70 }}
+          />
+          <span>日ごと</span>
+        </div>
+      )}
+
+      {value.kind === "range" && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <input
+            type="date"
+            value={value.from ?? ""}
+            onChange={(e) => onChange({ ...value, from: (e.target.value || undefined) as DayISO | undefined })}
+            style={{ padding: 6 }}
+          />
+          <span>〜</span>
+          <input
+            type="date"
+            value={value.to ?? ""}
+            onChange={(e) => onChange({ ...value, to: (e.target.value || undefined) as DayISO | undefined })}
+            style={{ padding: 6 }}
+          />
+          <small style={{ opacity: 0.7 }}>（空欄は無期限）</small>
+        </div>
+      )}
+    </div>
+  );
+}
+
 function clampPoints(n: number): number {
   const v = Number.isFinite(n) ? Math.round(n) : 1;
   return Math.min(10, Math.max(1, v));
@@ -43,27 +198,43 @@ function makeId(): TaskId {
 }
 
 export default function Tasks() {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const repo = useRepository();
+  const tasks = useTasks();
   const [draft, setDraft] = useState<DraftTask>(newDraft());
   const [editingId, setEditingId] = useState<TaskId | null>(null);
   const [error, setError] = useState<string>("");
 
-  useEffect(() => {
-    setTasks(loadTasks());
-  }, []);
-
   const activeCount = useMemo(() => tasks.filter((t) => t.isActive).length, [tasks]);
   const coreActiveCount = useMemo(
     () => tasks.filter((t) => t.isActive && t.isCore).length,
     [tasks]
   );
 
-  const coreList = useMemo(() => tasks.filter((t) => t.isCore), [tasks]);
-  const otherList = useMemo(() => tasks.filter((t) => !t.isCore), [tasks]);
+  // アーカイブ済みは一覧に出さない（下のアーカイブ欄から復元できる）
+  const liveTasks = useMemo(() => tasks.filter((t) => !t.archivedAt), [tasks]);
+  const archivedList = useMemo(() => tasks.filter((t) => t.archivedAt), [tasks]);
+  // 分野・タグで絞り込み（null = すべて / 分野の "" = 未分類）
+  const [categoryFilter, setCategoryFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const categories = useMemo(() => listCategories(liveTasks), [liveTasks]);
+  const tags = useMemo(() => listTags(liveTasks), [liveTasks]);
+  const filtering = categoryFilter != null || tagFilter != null;
+
+  const shownTasks = useMemo(
+    () =>
+      liveTasks.filter(
+        (t) =>
+          (categoryFilter == null || categoryOf(t) === categoryFilter) &&
+          (tagFilter == null || (t.tags ?? []).includes(tagFilter))
+      ),
+    [liveTasks, categoryFilter, tagFilter]
+  );
+  const coreList = useMemo(() => shownTasks.filter((t) => t.isCore), [shownTasks]);
+  const otherList = useMemo(() => shownTasks.filter((t) => !t.isCore), [shownTasks]);
 
-  function persist(next: Task[]) {
-    setTasks(next);
-    saveTasks(next);
+  // 保存すると store 経由で全ページに反映される（元に戻せるように履歴にも積む）
+  function persist(next: Task[], label: string) {
+    saveInBackground(saveTasksWithUndo(repo, tasks, next, label));
   }
 
   function resetForm() {
@@ -72,16 +243,34 @@ export default function Tasks() {
     setError("");
   }
 
+  // 統計を開いているタスク
+  const [statsId, setStatsId] = useState<TaskId | null>(null);
+
   function startEdit(t: Task) {
     setDraft(cloneTaskToDraft(t));
     setEditingId(t.id);
     setError("");
   }
 
-  function remove(id: TaskId) {
-    const next = tasks.filter((t) => t.id !== id);
-    persist(next);
+  // 削除はせずアーカイブする（過去の記録のチェックからタイトルを引けるように残す）
+  function archive(id: TaskId) {
+    const target = tasks.find((t) => t.id === id);
+    if (!target) return;
+
+    const now = Date.now();
+    const next = tasks.map((t) => (t.id === id ? { ...t, isActive: false, archivedAt: now, updatedAt: now } : t));
+    persist(next, `「${target.title}」をアーカイブ`);
     if (editingId === id) resetForm();
+    if (statsId === id) setStatsId(null);
+  }
+
+  // 復元は休止の状態で戻す（最重要の上限は「復帰」のときに確認する）
+  function restore(id: TaskId) {
+    const target = tasks.find((t) => t.id === id);
+    if (!target) return;
+
+    const next = tasks.map((t) => (t.id === id ? { ...t, archivedAt: undefined, updatedAt: Date.now() } : t));
+    persist(next, `「${target.title}」を復元`);
   }
 
   function toggleActive(id: TaskId) {
@@ -102,8 +291,10 @@ export default function Tasks() {
     }
 
     setError("");
-    const next = tasks.map((t) => (t.id === id ? { ...t, isActive: !t.isActive } : t));
-    persist(next);
+    const next = tasks.map((t) =>
+      t.id === id ? { ...t, isActive: !t.isActive, updatedAt: Date.now() } : t
+    );
+    persist(next, `「${target.title}」を${target.isActive ? "休止" : "復帰"}`);
   }
 
   function canEnableCoreActive(excludeId?: TaskId): boolean {
@@ -117,8 +308,8 @@ export default function Tasks() {
     const current = tasks.find((t) => t.id === id);
     if (!current) return;
 
-    // 表示が「最重要」と「加点」で分かれているので、移動は同グループ内のみ
-    const group = tasks.filter((t) => t.isCore === current.isCore);
+    // 表示が「最重要」と「加点」で分かれているので、移動は同グループ内のみ（アーカイブ済みは飛ばす）
+    const group = liveTasks.filter((t) => t.isCore === current.isCore);
 
     const pos = group.findIndex((t) => t.id === id);
     const nextPos = pos + dir;
@@ -135,7 +326,7 @@ export default function Tasks() {
     const next = tasks.slice();
     [next[idxA], next[idxB]] = [next[idxB], next[idxA]];
 
-    persist(next);
+    persist(next, `「${current.title}」を並べ替え`);
   }
 
   function submit() {
@@ -153,15 +344,33 @@ export default function Tasks() {
       }
     }
 
+    const recurrenceError = validateRecurrence(draft.recurrence);
+    if (recurrenceError) {
+      setError(recurrenceError);
+      return;
+    }
+
     const points = normalizePoints(draft);
+    const recurrence = normalizeRecurrence(draft.recurrence);
 
     if (editingId) {
       const next = tasks.map((t) =>
         t.id === editingId
-          ? { ...t, title, points, isCore: draft.isCore, isActive: draft.isActive }
+          ? {
+              ...t,
+              title,
+              points,
+              isCore: draft.isCore,
+              isActive: draft.isActive,
+              recurrence,
+              weeklyTarget: draft.weeklyTarget > 0 ? draft.weeklyTarget : undefined,
+              ...quantityFields(draft),
+              ...categoryFields(draft),
+              updatedAt: Date.now(),
+            }
           : t
       );
-      persist(next);
+      persist(next, `「${title}」を編集`);
       resetForm();
       return;
     }
@@ -172,9 +381,14 @@ export default function Tasks() {
       points,
       isCore: draft.isCore,
       isActive: draft.isActive,
+      recurrence,
+      weeklyTarget: draft.weeklyTarget > 0 ? draft.weeklyTarget : undefined,
+      ...quantityFields(draft),
+      ...categoryFields(draft),
+      updatedAt: Date.now(),
     };
 
-    persist([newTask, ...tasks]);
+    persist([newTask, ...tasks], `「${title}」を追加`);
     resetForm();
   }
 
@@ -206,11 +420,42 @@ export default function Tasks() {
             />
           </label>
 
+          {/* 分野・タグ */}
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <label style={{ display: "grid", gap: 4, flex: "1 1 160px" }}>
+              <span>分野</span>
+              <input
+                value={draft.category}
+                onChange={(e) => setDraft((p) => ({ ...p, category: e.target.value }))}
+                list="task-categories"
+                placeholder="例：健康・勉強・家事"
+                style={{ padding: 8 }}
+              />
+              <datalist id="task-categories">
+                {categories
+                  .filter((c) => c !== "")
+                  .map((c) => (
+                    <option key={c} value={c} />
+                  ))}
+              </datalist>
+            </label>
+            <label style={{ display: "grid", gap: 4, flex: "2 1 220px" }}>
+              <span>タグ（カンマ区切り）</span>
+              <input
+                value={draft.tags}
+                onChange={(e) => setDraft((p) => ({ ...p, tags: e.target.value }))}
+                placeholder="例：朝, 5分"
+                style={{ padding: 8 }}
+              />
+            </label>
+          </div>
+
           {/* 最重要 */}
           <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
             <input
               type="checkbox"
               checked={draft.isCore}
+              disabled={draft.weeklyTarget > 0}
               onChange={(e) => {
                 const nextIsCore = e.target.checked;
 
@@ -284,6 +529,91 @@ export default function Tasks() {
             <span>運用中</span>
           </label>
 
+          {/* 頻度：週N回は加点のみ */}
+          <label style={{ display: "grid", gap: 4 }}>
+            <span>頻度</span>
+            <select
+              value={draft.weeklyTarget}
+              onChange={(e) => {
+                const weeklyTarget = Number(e.target.value);
+                setError("");
+                setDraft((p) => ({
+                  ...p,
+                  weeklyTarget,
+                  isCore: weeklyTarget > 0 ? false : p.isCore,
+                  points: weeklyTarget > 0 ? clampPoints(p.points) : p.points,
+                }));
+              }}
+              style={{ padding: 8 }}
+            >
+              <option value={0}>実施日ごと（その日のスコアで評価）</option>
+              {Array.from({ length: 7 }, (_, i) => i + 1).map((n) => (
+                <option key={n} value={n}>
+                  週{n}回（週の回数で評価）
+                </option>
+              ))}
+            </select>
+            {draft.weeklyTarget > 0 && (
+              <small>週N回タスクは加点のみです。点数 × 達成率（上限あり）が週の加点になります。</small>
+            )}
+          </label>
+
+          {/* 量で記録（部分点） */}
+          <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={draft.target > 0}
+              onChange={(e) =>
+                setDraft((p) => ({ ...p, target: e.target.checked ? 8 : 0, minPercent: 0 }))
+              }
+            />
+            <span>量で記録する（例：水を8杯、読書30分）</span>
+          </label>
+
+          {draft.target > 0 && (
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+              <span>目標</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.target}
+                onChange={(e) => setDraft((p) => ({ ...p, target: Math.max(1, Number(e.target.value) || 1) }))}
+                style={{ padding: 6, width: 80 }}
+              />
+              <input
+                value={draft.unit}
+                onChange={(e) => setDraft((p) => ({ ...p, unit: e.target.value }))}
+                placeholder="単位（杯・分など）"
+                style={{ padding: 6, width: 140 }}
+              />
+              <span>下限</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={draft.minPercent}
+                onChange={(e) => setDraft((p) => ({ ...p, minPercent: Number(e.target.value) }))}
+                style={{ padding: 6, width: 70 }}
+              />
+              <span>%</span>
+              <small style={{ width: "100%", opacity: 0.7 }}>
+                達成率に応じて部分点（目標で頭打ち）。下限未満は0点です。
+              </small>
+            </div>
+          )}
+
+          {/* 実施日 */}
+          <div style={{ display: "grid", gap: 4 }}>
+            <span>実施日</span>
+            <RecurrenceEditor
+              value={draft.recurrence}
+              onChange={(recurrence) => {
+                setError("");
+                setDraft((p) => ({ ...p, recurrence }));
+              }}
+            />
+          </div>
+
           <div style={{ display: "flex", gap: 8 }}>
             <button onClick={submit} style={{ padding: "8px 12px" }}>
               {editingId ? "更新" : "追加"}
@@ -299,8 +629,42 @@ export default function Tasks() {
 
       <h2>タスク一覧</h2>
 
-      {tasks.length === 0 ? (
+      {(categories.length > 1 || categories[0] || tags.length > 0) && (
+        <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginBottom: 8 }}>
+          <select
+            value={categoryFilter ?? "__all"}
+            onChange={(e) => setCategoryFilter(e.target.value === "__all" ? null : e.target.value)}
+            style={{ padding: 6 }}
+          >
+            <option value="__all">すべての分野</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {categoryLabel(c)}
+              </option>
+            ))}
+          </select>
+          {tags.length > 0 && (
+            <select
+              value={tagFilter ?? "__all"}
+              onChange={(e) => setTagFilter(e.target.value === "__all" ? null : e.target.value)}
+              style={{ padding: 6 }}
+            >
+              <option value="__all">すべてのタグ</option>
+              {tags.map((t) => (
+                <option key={t} value={t}>
+                  #{t}
+                </option>
+              ))}
+            </select>
+          )}
+          {filtering && <small style={{ opacity: 0.7 }}>※絞り込み中は並べ替えできません</small>}
+        </div>
+      )}
+
+      {liveTasks.length === 0 ? (
         <div style={{ opacity: 0.8 }}>まだタスクがありません。上から追加してください。</div>
+      ) : shownTasks.length === 0 ? (
+        <div style={{ opacity: 0.8 }}>条件に合うタスクがありません。</div>
       ) : (
         <>
           {/* ===== 最重要 ===== */}
@@ -311,8 +675,8 @@ export default function Tasks() {
             <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
               {coreList.map((t) => {
                 const idx = coreList.findIndex((x) => x.id === t.id);
-                const canUp = idx > 0;
-                const canDown = idx < coreList.length - 1;
+                const canUp = !filtering && idx > 0;
+                const canDown = !filtering && idx < coreList.length - 1;
 
                 return (
                   <li
@@ -326,6 +690,14 @@ export default function Tasks() {
                   >
                     <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
                       <strong style={{ opacity: t.isActive ? 1 : 0.5 }}>{t.title}</strong>
+                      {t.recurrence && <small style={{ opacity: 0.7 }}>{recurrenceLabel(t.recurrence)}</small>}
+                      {t.target ? <small style={{ opacity: 0.7 }}>{`目標 ${t.target}${t.unit ?? ""}`}</small> : null}
+                      {t.category ? <small style={{ opacity: 0.7 }}>{t.category}</small> : null}
+                      {(t.tags ?? []).map((tag) => (
+                        <small key={tag} style={{ opacity: 0.7 }}>
+                          #{tag}
+                        </small>
+                      ))}
                       <span style={{ marginLeft: "auto", opacity: 0.7 }}>最重要</span>
                     </div>
 
@@ -351,11 +723,19 @@ export default function Tasks() {
                       <button onClick={() => toggleActive(t.id)} style={{ padding: "6px 10px" }}>
                         {t.isActive ? "休止" : "復帰"}
                       </button>
-                      <button onClick={() => remove(t.id)} style={{ padding: "6px 10px" }}>
-                        削除
+                      <button onClick={() => archive(t.id)} style={{ padding: "6px 10px" }}>
+                        アーカイブ
+                      </button>
+                      <button
+                        onClick={() => setStatsId((cur) => (cur === t.id ? null : t.id))}
+                        style={{ padding: "6px 10px" }}
+                      >
+                        {statsId === t.id ? "統計を閉じる" : "統計"}
                       </button>
                     </div>
 
+                    {statsId === t.id && <TaskStats taskId={t.id} />}
+
                     <small style={{ opacity: 0.6 }}>id: {t.id}</small>
                   </li>
                 );
@@ -371,8 +751,8 @@ export default function Tasks() {
             <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
               {otherList.map((t) => {
                 const idx = otherList.findIndex((x) => x.id === t.id);
-                const canUp = idx > 0;
-                const canDown = idx < otherList.length - 1;
+                const canUp = !filtering && idx > 0;
+                const canDown = !filtering && idx < otherList.length - 1;
 
                 return (
                   <li
@@ -386,7 +766,17 @@ export default function Tasks() {
                   >
                     <div style={{ display: "flex", gap: 10, alignItems: "center" }}>
                       <strong style={{ opacity: t.isActive ? 1 : 0.5 }}>{t.title}</strong>
-                      <span style={{ marginLeft: "auto", opacity: 0.7 }}>{`+${t.points}`}</span>
+                      {t.recurrence && <small style={{ opacity: 0.7 }}>{recurrenceLabel(t.recurrence)}</small>}
+                      {t.target ? <small style={{ opacity: 0.7 }}>{`目標 ${t.target}${t.unit ?? ""}`}</small> : null}
+                      {t.category ? <small style={{ opacity: 0.7 }}>{t.category}</small> : null}
+                      {(t.tags ?? []).map((tag) => (
+                        <small key={tag} style={{ opacity: 0.7 }}>
+                          #{tag}
+                        </small>
+                      ))}
+                      <span style={{ marginLeft: "auto", opacity: 0.7 }}>
+                        {t.weeklyTarget ? `週${t.weeklyTarget}回 / +${t.points}` : `+${t.points}`}
+                      </span>
                     </div>
 
                     <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
@@ -411,11 +801,19 @@ export default function Tasks() {
                       <button onClick={() => toggleActive(t.id)} style={{ padding: "6px 10px" }}>
                         {t.isActive ? "休止" : "復帰"}
                       </button>
-                      <button onClick={() => remove(t.id)} style={{ padding: "6px 10px" }}>
-                        削除
+                      <button onClick={() => archive(t.id)} style={{ padding: "6px 10px" }}>
+                        アーカイブ
+                      </button>
+                      <button
+                        onClick={() => setStatsId((cur) => (cur === t.id ? null : t.id))}
+                        style={{ padding: "6px 10px" }}
+                      >
+                        {statsId === t.id ? "統計を閉じる" : "統計"}
                       </button>
                     </div>
 
+                    {statsId === t.id && <TaskStats taskId={t.id} />}
+
                     <small style={{ opacity: 0.6 }}>id: {t.id}</small>
                   </li>
                 );
@@ -424,6 +822,31 @@ export default function Tasks() {
           )}
         </>
       )}
+
+      {/* ===== アーカイブ ===== */}
+      {archivedList.length > 0 && (
+        <>
+          <h3 style={{ marginTop: 18 }}>アーカイブ</h3>
+          <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+            {archivedList.map((t) => (
+              <li
+                key={t.id}
+                style={{ padding: 10, borderBottom: "1px solid #eee", display: "flex", gap: 10, alignItems: "center" }}
+              >
+                <span style={{ opacity: 0.6 }}>{t.title}</span>
+                <small style={{ opacity: 0.6 }}>{t.isCore ? "最重要" : `+${t.points}`}</small>
+                <small style={{ opacity: 0.6 }}>
+                  {t.archivedAt ? `${new Date(t.archivedAt).toLocaleDateString()} にアーカイブ` : ""}
+                </small>
+                <button onClick={() => restore(t.id)} style={{ marginLeft: "auto", padding: "6px 10px" }}>
+                  復元
+                </button>
+              </li>
+            ))}
+          </ul>
+          <small style={{ opacity: 0.7 }}>※アーカイブしたタスクも、過去の記録ではそのまま表示・集計されます。</small>
+        </>
+      )}
     </div>
   );
 }
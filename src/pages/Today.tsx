@@ -1,15 +1,34 @@
 // src/pages/Today.tsx
-import { useEffect, useMemo, useState } from "react";
-import type { DayISO, Task } from "../domain/types";
-import { calcScore } from "../domain/scoring";
-import { getDayLog, loadTasks, saveTasks, upsertDayLog, deleteDayLog } from "../infra/storage";
-
-function toDayISO(date: Date): DayISO {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  const d = String(date.getDate()).padStart(2, "0");
-  return `${y}-${m}-${d}` as DayISO;
-}
+import { Fragment, useEffect, useMemo, useState, type ReactNode } from "react";
+import type { AdHocTask, CheckValue, DayISO, DayPlan, Task } from "../domain/types";
+import {
+  amountOf,
+  calcScore,
+  calcWeeklyScore,
+  isQuantityTask,
+  isTaskDone,
+  isWeeklyTask,
+  profileForDay,
+} from "../domain/scoring";
+import { calcStreaks } from "../domain/streak";
+import { plannedTasks } from "../domain/schedule";
+import { describeTarget, isTargetMet, normalizePlan } from "../domain/plan";
+import { clearExclusion } from "../domain/exclusion";
+import { categoryLabel, groupByCategory } from "../domain/category";
+import {
+  useDayLog,
+  useDayLogMap,
+  useDayLogRange,
+  useRepository,
+  useScoringProfiles,
+  useTasks,
+  useTodayISO,
+  useUndoState,
+} from "../state/hooks";
+import { saveInBackground, updateDayLogWithUndo, updateDayLogsWithUndo } from "../state/undo";
+import { addDays, isoWeekStart } from "../utils/date";
+import DayPlanEditor from "./DayPlanEditor";
+import RankSimulator from "./RankSimulator";
 
 // 初回用：タスクが無いときに仮で入れる
 function seedTasksIfEmpty(tasks: Task[]): Task[] {
@@ -32,75 +51,268 @@ function seedTasksIfEmpty(tasks: Task[]): Task[] {
 //};
 
 
-function isEmptyDayLog(log: { checks: Record<string, boolean>; note?: string; excludeFromStats?: boolean }): boolean {
-  if (log.excludeFromStats) return false;
-  if ((log.note ?? "").trim().length > 0) return false;
-  return !Object.values(log.checks ?? {}).some(Boolean);
-}
-
-function persistDayLog(date: DayISO, log: { checks: Record<string, boolean>; note: string; excludeFromStats: boolean }) {
-  if (isEmptyDayLog(log)) {
-    deleteDayLog(date);
-  } else {
-    upsertDayLog({ date, ...log } as any);
+// 通常タスクはチェックボックス、量タスクは ± ボタン付きの数値入力
+function TaskCheck({
+  task,
+  value,
+  disabled,
+  onChange,
+  children,
+}: {
+  task: Task;
+  value: CheckValue | undefined;
+  disabled: boolean;
+  onChange: (next: CheckValue) => void;
+  children: ReactNode;
+}) {
+  if (!isQuantityTask(task)) {
+    return (
+      <label>
+        <input type="checkbox" checked={!!value} onChange={() => onChange(!value)} disabled={disabled} />
+        {children}
+      </label>
+    );
   }
-}
 
+  const amount = amountOf(task, value);
+  const setAmount = (n: number) => onChange(Math.max(0, Number.isFinite(n) ? n : 0));
 
-function addDaysISO(base: DayISO, delta: number): DayISO {
-  const [y, m, d] = base.split("-").map(Number);
-  const dt = new Date(y, (m ?? 1) - 1, d ?? 1);
-  dt.setDate(dt.getDate() + delta);
-  return toDayISO(dt);
+  return (
+    <span style={{ display: "inline-flex", gap: 6, alignItems: "center", flexWrap: "wrap" }}>
+      <span>{children}</span>
+      <button onClick={() => setAmount(amount - 1)} disabled={disabled || amount <= 0} style={{ padding: "2px 8px" }}>
+        −
+      </button>
+      <input
+        type="number"
+        min={0}
+        value={amount}
+        onChange={(e) => setAmount(Number(e.target.value))}
+        disabled={disabled}
+        style={{ width: 64, padding: "2px 6px" }}
+      />
+      <button onClick={() => setAmount(amount + 1)} disabled={disabled} style={{ padding: "2px 8px" }}>
+        ＋
+      </button>
+      <span style={{ opacity: 0.8 }}>
+        / {task.target}
+        {task.unit ?? ""}
+        {amount >= (task.target ?? 0) ? " ✓" : ""}
+      </span>
+    </span>
+  );
 }
 
-export default function Today() {
-  const todayISO = useMemo(() => toDayISO(new Date()), []);
-
-  // 未来も選べる（制限しない）
-  const [selectedDay, setSelectedDay] = useState<DayISO>(todayISO);
+// 表示中の日は App が持つ（History のヒートマップから移動できるように）
+export default function Today({
+  selectedDay,
+  setSelectedDay,
+}: {
+  selectedDay: DayISO;
+  setSelectedDay: (day: DayISO) => void;
+}) {
+  // 1日の区切り（設定）を反映した「今日」（開いたまま日付が変わっても進む）
+  const todayISO = useTodayISO();
 
   const isFuture = selectedDay > todayISO;
 
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [checks, setChecks] = useState<Record<string, boolean>>({});
+  const tasks = useTasks();
+  const profiles = useScoringProfiles();
+  // 連続達成は全期間を見る（月ごとのキャッシュ経由なので、書き込み後は変わった月だけ読み直す）
+  const allLogs = useDayLogMap();
+
+  // 表示中の日の記録（どのページで書き込んでも即反映される）
+  const repo = useRepository();
+  const log = useDayLog(selectedDay);
+  const snapshot = log.taskSnapshot;
+  const checks = log.checks;
+
+  // メモは入力中の文字をそのまま持つ（空白だけだと記録が消えて入力が巻き戻るため）
+  // 元に戻す / やり直すがあったら書きかけは捨てて保存内容を出す
+  const { revision } = useUndoState();
+  const [noteDraft, setNoteDraft] = useState<{ day: DayISO; text: string; revision: number } | null>(null);
+  const note =
+    noteDraft?.day === selectedDay && noteDraft.revision === revision ? noteDraft.text : log.note ?? "";
+  const excludeFromStats = !!log.excludeFromStats;
+
+  // 初回用：起動時にタスクが無ければ仮のタスクを入れる（起動後に全部消した場合は入れ直さない）
+  useEffect(() => {
+    saveInBackground(
+      (async () => {
+        const current = await repo.loadTasks();
+        if (current.length === 0) await repo.saveTasks(seedTasksIfEmpty(current));
+      })()
+    );
+  }, [repo]);
+
+  // 過去日はその日のスナップショットで固定、今日・未来は現在のタスク定義
+  const dayTasks = useMemo(() => {
+    if (selectedDay >= todayISO) return tasks;
+    return snapshot ?? tasks;
+  }, [selectedDay, todayISO, tasks, snapshot]);
+
+  const score = useMemo(() => {
+    // 未来日はスコアを「出さない」方針なので、計算しても表示には使わない
+    return calcScore(dayTasks, log, profileForDay(profiles, selectedDay));
+  }, [dayTasks, log, selectedDay, profiles]);
 
-  const [note, setNote] = useState("");
-  const [excludeFromStats, setExcludeFromStats] = useState(false);
+  const streak = useMemo(
+    () => calcStreaks(allLogs, tasks, todayISO, profiles),
+    [allLogs, tasks, todayISO, profiles]
+  );
 
+  // 週N回タスクの進み具合（表示中の日を含む週）
+  const weekStart = isoWeekStart(selectedDay) as DayISO;
+  const weekLogs = useDayLogRange(weekStart, addDays(weekStart, 6) as DayISO);
+  const weekly = useMemo(() => calcWeeklyScore(tasks, weekLogs, weekStart), [tasks, weekLogs, weekStart]);
 
-  // 初期ロード（選択日が変わるたびに、その日のログを復元）
-  useEffect(() => {
+  function setCheck(taskId: string, value: CheckValue) {
+    if (isFuture) return; // ★未来はチェック不可
 
-    const loadedTasks = seedTasksIfEmpty(loadTasks());
-    setTasks(loadedTasks);
-    saveTasks(loadedTasks);
+    // そのまま保存（空なら削除）。変えた項目だけ最新の記録に当てる
+    const title = [...dayTasks, ...adHocTasks].find((t) => t.id === taskId)?.title ?? "";
+    saveInBackground(
+      updateDayLogWithUndo(
+        repo,
+        selectedDay,
+        (cur) => ({
+          ...cur,
+          checks: { ...cur.checks, [taskId]: value },
+          taskSnapshot: dayTasks,
+        }),
+        `「${title}」の記録を変更`,
+        // 量タスクの ± 連打は1回にまとめる
+        typeof value === "number" ? `check:${selectedDay}:${taskId}` : undefined
+      )
+    );
+  }
 
-    const log = getDayLog(selectedDay);
-    setChecks(log.checks);
-    setNote(log.note ?? "");
-    setExcludeFromStats(!!log.excludeFromStats);
 
-  }, [selectedDay]);
+  // --- その日だけの単発タスク ---
+  const adHocTasks = log.adHocTasks ?? [];
+  const [adHocDraft, setAdHocDraft] = useState({ title: "", isCore: false, points: 5 });
+  const [simOpen, setSimOpen] = useState(false);
+
+  function addAdHoc() {
+    const title = adHocDraft.title.trim();
+    if (!title) return;
+
+    const task: AdHocTask = {
+      id: `adhoc_${Date.now()}`,
+      title,
+      isCore: adHocDraft.isCore,
+      isActive: true,
+      points: adHocDraft.isCore ? 0 : adHocDraft.points,
+    };
+    saveInBackground(
+      updateDayLogWithUndo(
+        repo,
+        selectedDay,
+        (cur) => ({ ...cur, adHocTasks: [...(cur.adHocTasks ?? []), task], taskSnapshot: dayTasks }),
+        `「${title}」を${selectedDay}に追加`
+      )
+    );
+    setAdHocDraft((d) => ({ ...d, title: "" }));
+  }
 
-  const score = useMemo(() => {
-    // 未来日はスコアを「出さない」方針なので、計算しても表示には使わない
-    return calcScore(tasks, { date: selectedDay, checks, note, excludeFromStats });
-  }, [tasks, checks, selectedDay, note, excludeFromStats]);
+  function removeAdHoc(task: AdHocTask) {
+    saveInBackground(
+      updateDayLogWithUndo(
+        repo,
+        selectedDay,
+        (cur) => {
+          const checks = { ...cur.checks };
+          delete checks[task.id];
+          return { ...cur, checks, adHocTasks: (cur.adHocTasks ?? []).filter((t) => t.id !== task.id) };
+        },
+        `「${task.title}」を削除`
+      )
+    );
+  }
 
-  function toggle(taskId: string) {
-    if (isFuture) return; // ★未来はチェック不可
+  // 未完了の単発タスクを翌日にも出す（この日は未達のまま残す / 両日の変更を1回の操作として戻せる）
+  function carryOver(task: AdHocTask) {
+    const nextDay = addDays(selectedDay, 1) as DayISO;
+    const copy: AdHocTask = { ...task, id: `adhoc_${Date.now()}`, carriedFrom: selectedDay, carriedTo: undefined };
+
+    saveInBackground(
+      updateDayLogsWithUndo(
+        repo,
+        [selectedDay, nextDay],
+        (cur) =>
+          cur.date === nextDay
+            ? { ...cur, adHocTasks: [...(cur.adHocTasks ?? []), copy] }
+            : {
+                ...cur,
+                adHocTasks: (cur.adHocTasks ?? []).map((t) => (t.id === task.id ? { ...t, carriedTo: nextDay } : t)),
+                taskSnapshot: dayTasks,
+              },
+        `「${task.title}」を${nextDay}に繰り越し`
+      )
+    );
+  }
 
-    const nextChecks = { ...checks, [taskId]: !checks[taskId] };
-    setChecks(nextChecks);
+  function renderAdHoc(t: AdHocTask) {
+    const done = isTaskDone(t, checks[t.id]);
+    return (
+      <li key={t.id}>
+        <TaskCheck task={t} value={checks[t.id]} disabled={isFuture} onChange={(v) => setCheck(t.id, v)}>
+          {t.title}
+          {t.isCore ? "" : ` (+${t.points})`}
+        </TaskCheck>
+        <small style={{ marginLeft: 8, opacity: 0.7 }}>
+          単発{t.carriedFrom ? `（${t.carriedFrom} から繰り越し）` : ""}
+          {t.carriedTo ? ` → ${t.carriedTo} に繰り越し済み` : ""}
+        </small>
+        {!done && !t.carriedTo && !isFuture && (
+          <button onClick={() => carryOver(t)} style={{ marginLeft: 8, padding: "2px 8px" }}>
+            翌日に繰り越す
+          </button>
+        )}
+        <button onClick={() => removeAdHoc(t)} style={{ marginLeft: 8, padding: "2px 8px" }}>
+          削除
+        </button>
+      </li>
+    );
+  }
 
-    // そのまま保存（空なら削除）
-    persistDayLog(selectedDay, { checks: nextChecks, note, excludeFromStats });
+  // --- 予定（未来日に立てておき、当日はそれに沿って出す） ---
+  const plan = log.plan ?? {};
+  const dayProfile = profileForDay(profiles, selectedDay);
+
+  function savePlan(next: DayPlan, label: string) {
+    saveInBackground(
+      updateDayLogWithUndo(
+        repo,
+        selectedDay,
+        (cur) => ({ ...cur, plan: normalizePlan(next), taskSnapshot: dayTasks }),
+        label
+      )
+    );
   }
 
+  // 実施日でないタスク（曜日指定など）・予定で外したタスクは出さない
+  const dayScheduled = plannedTasks(dayTasks, selectedDay, log.plan);
+  const coreTasks = dayScheduled.filter((t) => t.isCore);
+  const bonusTasks = dayScheduled.filter((t) => !t.isCore && !isWeeklyTask(t));
+  const weeklyTasks = dayScheduled.filter((t) => isWeeklyTask(t));
+
+  // 分野が付いていれば分野ごとに見出しを出す（未分類だけなら今まで通り）
+  const useGroups = dayScheduled.some((t) => t.category?.trim());
+  function renderGrouped(list: Task[], render: (t: Task) => ReactNode): ReactNode {
+    if (!useGroups) return list.map(render);
+    return groupByCategory(list).map((g) => (
+      <Fragment key={g.category}>
+        <li style={{ listStyle: "none", marginLeft: -20, marginTop: 6, fontSize: 13, opacity: 0.7 }}>
+          {categoryLabel(g.category)}
+        </li>
+        {g.tasks.map(render)}
+      </Fragment>
+    ));
+  }
 
-  const coreTasks = tasks.filter((t) => t.isActive && t.isCore);
-  const bonusTasks = tasks.filter((t) => t.isActive && !t.isCore);
+  // 分野ごとの得点（分野が1つも無ければ出さない）
+  const categoryScores = Object.entries(score.byCategory).sort((a, b) => b[1] - a[1]);
 
   const labelDay =
     selectedDay === todayISO
@@ -116,7 +328,7 @@ export default function Today() {
       {/* 日付セレクタ */}
       <div style={{ display: "flex", gap: 10, alignItems: "center", marginBottom: 12 ,flexWrap: "wrap" }}>
         <button
-          onClick={() => setSelectedDay(addDaysISO(selectedDay, -1))}
+          onClick={() => setSelectedDay(addDays(selectedDay, -1) as DayISO)}
           style={{ padding: "6px 10px" }}
         >
           ◀ 前日
@@ -137,7 +349,7 @@ export default function Today() {
         </button>
 
         <button
-          onClick={() => setSelectedDay(addDaysISO(selectedDay, 1))}
+          onClick={() => setSelectedDay(addDays(selectedDay, 1) as DayISO)}
           style={{ padding: "6px 10px" }}
         >
           翌日 ▶
@@ -159,8 +371,33 @@ export default function Today() {
               {score.showRank ? `${score.rank} ${score.rawScore.toFixed(1)}` : score.rawScore.toFixed(1)}
             </div>
             <div>最重要未達数：{score.coreIncompleteCount}</div>
+            {useGroups && categoryScores.length > 0 && (
+              <div style={{ marginTop: 4, fontSize: 14, opacity: 0.85 }}>
+                分野別：
+                {categoryScores.map(([c, v]) => `${categoryLabel(c)} ${v.toFixed(1)}`).join(" / ")}
+              </div>
+            )}
+            {plan.target && (
+              <div style={{ marginTop: 4 }}>
+                目標：{describeTarget(plan.target)} →{" "}
+                {isTargetMet(plan.target, score, dayProfile) ? (
+                  <b style={{ color: "#239a3b" }}>達成</b>
+                ) : (
+                  <span style={{ opacity: 0.8 }}>{selectedDay === todayISO ? "まだ" : "未達"}</span>
+                )}
+              </div>
+            )}
           </>
         )}
+        {plan.restDay && <div style={{ marginTop: 6, fontWeight: 700 }}>休息日（予定）</div>}
+        <div style={{ marginTop: 6, opacity: 0.85 }}>
+          連続達成：{streak.current}日（最長 {streak.longest}日）
+        </div>
+        {weekly.progress.length > 0 && (
+          <div style={{ marginTop: 4, opacity: 0.85 }}>
+            今週の週N回加点：+{weekly.weeklyScore.toFixed(1)}（目標達成 {weekly.achievedCount}/{weekly.progress.length}）
+          </div>
+        )}
       </div>
 
       {/* メモ＋除外 */}
@@ -171,10 +408,18 @@ export default function Today() {
           value={note}
           onChange={(e) => {
             const nextNote = e.target.value;
-            setNote(nextNote);
-
-            // 未来日でも保存OK（チェックは現状のまま）
-            persistDayLog(selectedDay, { checks, note: nextNote, excludeFromStats });
+            setNoteDraft({ day: selectedDay, text: nextNote, revision });
+
+            // 未来日でも保存OK（チェックは現状のまま）。続けて入力した分は1回の操作にまとめる
+            saveInBackground(
+              updateDayLogWithUndo(
+                repo,
+                selectedDay,
+                (cur) => ({ ...cur, note: nextNote, taskSnapshot: dayTasks }),
+                "メモを編集",
+                `note:${selectedDay}`
+              )
+            );
           }}
           placeholder="例：出張、体調不良、予定が詰まっていた、など"
           rows={4}
@@ -187,54 +432,129 @@ export default function Today() {
             checked={excludeFromStats}
             onChange={(e) => {
               const nextExclude = e.target.checked;
-              setExcludeFromStats(nextExclude);
 
               // 未来日でも保存OK
-              persistDayLog(selectedDay, { checks, note, excludeFromStats: nextExclude });
+              saveInBackground(
+                updateDayLogWithUndo(
+                  repo,
+                  selectedDay,
+                  // 解除するときは期間でまとめて付けた理由も消す
+                  (cur) =>
+                    nextExclude
+                      ? { ...cur, excludeFromStats: true, taskSnapshot: dayTasks }
+                      : { ...clearExclusion(cur), taskSnapshot: dayTasks },
+                  nextExclude ? "集計から除外" : "除外を解除"
+                )
+              );
             }}
             style={{ padding: "6px 10px", fontSize: 16 }}
           />
-          <span>この日を平均などの集計から除外する</span>
+          <span>
+            この日を平均などの集計から除外する
+            {excludeFromStats && log.excludeReason ? `（${log.excludeReason}）` : ""}
+          </span>
         </label>
 
         <small style={{ opacity: 0.7 }}>
-          ※ 未来日もメモと除外は設定できます（チェックは当日以降）。
+          ※ 未来日もメモ・除外・予定は設定できます（チェックは当日以降）。
         </small>
       </div>
 
+      {/* 次のランクまでの試算（当日・過去日のみ） */}
+      {!isFuture && (
+        <>
+          <button onClick={() => setSimOpen((v) => !v)} style={{ padding: "6px 10px", marginBottom: 8 }}>
+            次のランクまで {simOpen ? "▲" : "▼"}
+          </button>
+          {simOpen && <RankSimulator key={selectedDay} tasks={dayTasks} log={log} profile={dayProfile} />}
+        </>
+      )}
+
+      {isFuture && (
+        <DayPlanEditor day={selectedDay} plan={plan} tasks={dayTasks} profile={dayProfile} onChange={savePlan} />
+      )}
+
       <h2>最重要タスク（今日の土台）</h2>
       <ul style={{ opacity: isFuture ? 0.6 : 1 }}>
-        {coreTasks.map((t) => (
+        {renderGrouped(coreTasks, (t) => (
           <li key={t.id}>
-            <label>
-              <input
-                type="checkbox"
-                checked={!!checks[t.id]}
-                onChange={() => toggle(t.id)}
-                disabled={isFuture}
-              />
+            <TaskCheck task={t} value={checks[t.id]} disabled={isFuture} onChange={(v) => setCheck(t.id, v)}>
               {t.title}
-            </label>
+            </TaskCheck>
           </li>
         ))}
+        {adHocTasks.filter((t) => t.isCore).map(renderAdHoc)}
       </ul>
 
       <h2>加点タスク（余力）</h2>
       <ul style={{ opacity: isFuture ? 0.6 : 1 }}>
-        {bonusTasks.map((t) => (
+        {renderGrouped(bonusTasks, (t) => (
           <li key={t.id}>
-            <label>
-              <input
-                type="checkbox"
-                checked={!!checks[t.id]}
-                onChange={() => toggle(t.id)}
-                disabled={isFuture}
-              />
+            <TaskCheck task={t} value={checks[t.id]} disabled={isFuture} onChange={(v) => setCheck(t.id, v)}>
               {t.title} (+{t.points})
-            </label>
+            </TaskCheck>
           </li>
         ))}
+        {adHocTasks.filter((t) => !t.isCore).map(renderAdHoc)}
       </ul>
+
+      {/* この日だけのタスクを追加（未来日にも予定として入れられる） */}
+      <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 16 }}>
+        <input
+          value={adHocDraft.title}
+          onChange={(e) => setAdHocDraft((d) => ({ ...d, title: e.target.value }))}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addAdHoc();
+          }}
+          placeholder="この日だけのタスク（例：書類を提出）"
+          style={{ padding: 6, flex: "1 1 200px" }}
+        />
+        <select
+          value={adHocDraft.isCore ? "core" : "bonus"}
+          onChange={(e) => setAdHocDraft((d) => ({ ...d, isCore: e.target.value === "core" }))}
+          style={{ padding: 6 }}
+        >
+          <option value="core">最重要</option>
+          <option value="bonus">加点</option>
+        </select>
+        {!adHocDraft.isCore && (
+          <select
+            value={adHocDraft.points}
+            onChange={(e) => setAdHocDraft((d) => ({ ...d, points: Number(e.target.value) }))}
+            style={{ padding: 6 }}
+          >
+            {Array.from({ length: 10 }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                +{n}
+              </option>
+            ))}
+          </select>
+        )}
+        <button onClick={addAdHoc} style={{ padding: "6px 10px" }}>
+          追加
+        </button>
+      </div>
+
+      {weeklyTasks.length > 0 && (
+        <>
+          <h2>週N回タスク（今週の目標）</h2>
+          <ul style={{ opacity: isFuture ? 0.6 : 1 }}>
+            {weeklyTasks.map((t) => {
+              const p = weekly.progress.find((x) => x.task.id === t.id);
+              return (
+                <li key={t.id}>
+                  <TaskCheck task={t} value={checks[t.id]} disabled={isFuture} onChange={(v) => setCheck(t.id, v)}>
+                    {t.title}
+                  </TaskCheck>
+                  <span style={{ marginLeft: 8, opacity: 0.8 }}>
+                    {p ? `今週 ${p.done}/${p.target}${p.achieved ? " ✓" : ""}` : ""}（最大 +{t.points}）
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
     </div>
   );
 }
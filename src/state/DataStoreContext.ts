@@ -0,0 +1,18 @@
+// src/state/DataStoreContext.ts
+import { createContext } from "react";
+import type { AppSettings, ScoringProfileVersion, Task } from "../domain/types";
+import type { DataRepository } from "../infra/repository";
+import type { MonthISO } from "../infra/storage";
+
+// 全ページで共有するデータ（保存先への書き込みのたびに作り直す）
+// 日々の記録は含めない（hooks の useDayLogRange などで必要な期間だけ読む）
+export type DataStore = {
+  version: number;
+  repo: DataRepository; // 書き込みはここ経由
+  tasks: Task[];
+  profiles: ScoringProfileVersion[];
+  months: MonthISO[]; // 記録のある月（新しい順）
+  settings: AppSettings;
+};
+
+export const DataStoreContext = createContext<DataStore | null>(null);
@@ -0,0 +1,86 @@
+// src/state/DataStoreProvider.tsx
+import { useEffect, useState, useSyncExternalStore, type ReactNode } from "react";
+import { DataStoreContext, type DataStore } from "./DataStoreContext";
+import { getChangeVersion, subscribeChanges } from "../infra/changes";
+import {
+  createLocalStorageRepository,
+  openRepository,
+  withMonthCache,
+  type DataRepository,
+} from "../infra/repository";
+import { loadAppSettings, loadScoringProfiles } from "../infra/storage";
+
+// 保存先の変更を購読して、全ページに同じデータを配る
+export default function DataStoreProvider({ children }: { children: ReactNode }) {
+  const version = useSyncExternalStore(subscribeChanges, getChangeVersion);
+
+  const [repo, setRepo] = useState<DataRepository | null>(null);
+  const [store, setStore] = useState<DataStore | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    void openRepository()
+      .catch((e: unknown) => {
+        console.warn("保存先を開けないため localStorage を使います", e);
+        return withMonthCache(createLocalStorageRepository());
+      })
+      .then((r) => {
+        if (alive) setRepo(r);
+      });
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  // 変更のたびに読み込み直す（古い読み込みが後から届いても上書きしない）
+  // 日々の記録はここでは読まない（各ページが必要な期間だけ hooks 経由で読む）
+  useEffect(() => {
+    if (!repo) return;
+    let alive = true;
+
+    void (async () => {
+      try {
+        const [tasks, months] = await Promise.all([repo.loadTasks(), repo.listAvailableMonths()]);
+        if (!alive) return;
+        setStore({
+          version,
+          repo,
+          tasks,
+          profiles: loadScoringProfiles(),
+          months,
+          settings: loadAppSettings(),
+        });
+        setLoadError(null);
+      } catch (e) {
+        console.error(e);
+        if (alive) setLoadError(e instanceof Error && e.message ? e.message : String(e));
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [repo, version]);
+
+  const errorBox = loadError && (
+    <div style={{ padding: 12, margin: 12, border: "1px solid #e57373", borderRadius: 8, background: "#ffebee" }}>
+      データを読み込めませんでした：{loadError}
+      <button onClick={() => window.location.reload()} style={{ marginLeft: 8, padding: "2px 8px" }}>
+        再読み込み
+      </button>
+    </div>
+  );
+
+  if (!store) {
+    return errorBox || <div style={{ padding: 16, opacity: 0.7 }}>読み込み中…</div>;
+  }
+
+  // 読み込み直しに失敗したときは、前に読めた内容のまま知らせる
+  return (
+    <DataStoreContext.Provider value={store}>
+      {errorBox}
+      {children}
+    </DataStoreContext.Provider>
+  );
+}
@@ -0,0 +1,108 @@
+// src/state/hooks.ts
+import { useCallback, useContext, useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import type { AuditLogMap, DayISO, DayLog, DayLogMap } from "../domain/types";
+import type { DataRepository } from "../infra/repository";
+import { emptyDayLog, type MonthISO } from "../infra/storage";
+import { DataStoreContext, type DataStore } from "./DataStoreContext";
+import { getToday, subscribeDayChange } from "../utils/clock";
+import { getUndoState, subscribeUndo, type UndoState } from "./undo";
+
+export function useDataStore(): DataStore {
+  const store = useContext(DataStoreContext);
+  if (!store) throw new Error("DataStoreProvider の外で使われています");
+  return store;
+}
+
+export function useRepository(): DataRepository {
+  return useDataStore().repo;
+}
+
+export function useTasks() {
+  return useDataStore().tasks;
+}
+
+export function useScoringProfiles() {
+  return useDataStore().profiles;
+}
+
+export function useAppSettings() {
+  return useDataStore().settings;
+}
+
+export function useAvailableMonths(): MonthISO[] {
+  return useDataStore().months;
+}
+
+const EMPTY_LOGS: DayLogMap = {};
+
+/**
+ * 保存先から読んだ値（書き込みのたびに読み直す）
+ * - load は useCallback で固定して渡す。load が変わったら、読み終わるまでは前の値を出さずに initial を返す
+ * - enabled = false の間は読まない（開いたときだけ読む集計など）
+ */
+function useRepoQuery<T>(load: (repo: DataRepository) => Promise<T>, initial: T, enabled = true): T {
+  const { repo, version } = useDataStore();
+  const [state, setState] = useState<{ load: typeof load; value: T } | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let alive = true;
+    void load(repo).then((value) => {
+      if (alive) setState({ load, value });
+    });
+    return () => {
+      alive = false;
+    };
+  }, [repo, version, load, enabled]);
+
+  return state?.load === load ? state.value : initial;
+}
+
+const loadAll = (repo: DataRepository) => repo.loadDayLogMap();
+
+/**
+ * 全期間の記録（連続達成・集計・メンテナンス用）
+ * - 使う画面を開いている間だけ読む。月ごとのキャッシュ経由なので、書き込み後は変わった月だけ読み直す
+ */
+export function useDayLogMap(enabled = true): DayLogMap {
+  return useRepoQuery(loadAll, EMPTY_LOGS, enabled);
+}
+
+// 期間の記録だけ（重なる月だけ読む / 書き込みのたびに読み直す）
+export function useDayLogRange(from: DayISO, to: DayISO): DayLogMap {
+  const load = useCallback((repo: DataRepository) => repo.loadDayLogRange(from, to), [from, to]);
+  return useRepoQuery(load, EMPTY_LOGS);
+}
+
+// その日の記録（無ければ初期値）
+export function useDayLog(date: DayISO): DayLog {
+  const log = useDayLogRange(date, date)[date];
+  return useMemo(() => log ?? emptyDayLog(date), [log, date]);
+}
+
+// 特定月の記録だけ
+export function useMonthDayLogs(month: MonthISO | ""): DayLogMap {
+  const load = useCallback(
+    (repo: DataRepository) => (month ? repo.loadDayLogMapForMonth(month) : Promise.resolve(EMPTY_LOGS)),
+    [month]
+  );
+  return useRepoQuery(load, EMPTY_LOGS);
+}
+
+const EMPTY_AUDIT: AuditLogMap = {};
+
+// 期間の変更履歴（書き込みのたびに読み直す）
+export function useAuditLogRange(from: DayISO, to: DayISO): AuditLogMap {
+  const load = useCallback((repo: DataRepository) => repo.loadAuditRange(from, to), [from, to]);
+  return useRepoQuery(load, EMPTY_AUDIT);
+}
+
+// 「今日」（日付が変わると自動で進む / 1日の区切りの設定を反映）
+export function useTodayISO(): DayISO {
+  return useSyncExternalStore(subscribeDayChange, getToday) as DayISO;
+}
+
+// 元に戻す / やり直すの状態（トースト・ボタン用）
+export function useUndoState(): UndoState {
+  return useSyncExternalStore(subscribeUndo, getUndoState);
+}
@@ -0,0 +1,188 @@
+// src/state/undo.ts
+import type { DayISO, DayLog, Task } from "../domain/types";
+import type { DataRepository } from "../infra/repository";
+
+// --- 元に戻す / やり直す（このタブの中だけ・ページを切り替えても残る） ---
+
+type UndoEntry = {
+  label: string; // トーストに出す説明（例：「タスクを削除」）
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  mergeKey?: string; // 同じキーの連続操作は1つにまとめる（メモの入力など）
+  at: number;
+};
+
+export type UndoNotice = {
+  id: number;
+  label: string;
+  kind: "done" | "undone" | "redone" | "failed"; // failed = 保存に失敗（label はエラーの内容）
+};
+
+export type UndoState = {
+  canUndo: boolean;
+  canRedo: boolean;
+  notice: UndoNotice | null; // 直近の操作（トースト用）
+  revision: number; // 元に戻す / やり直すのたびに増える（画面の書きかけ状態を捨てる目印）
+};
+
+const MAX_ENTRIES = 100;
+const MERGE_WINDOW_MS = 2000;
+
+const undoStack: UndoEntry[] = [];
+const redoStack: UndoEntry[] = [];
+const listeners = new Set<() => void>();
+
+let noticeId = 0;
+let revision = 0;
+let state: UndoState = { canUndo: false, canRedo: false, notice: null, revision };
+
+function emit(notice: UndoNotice | null): void {
+  if (notice?.kind === "undone" || notice?.kind === "redone") revision++;
+  state = { canUndo: undoStack.length > 0, canRedo: redoStack.length > 0, notice, revision };
+  for (const l of listeners) l();
+}
+
+export function subscribeUndo(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getUndoState(): UndoState {
+  return state;
+}
+
+function push(entry: UndoEntry): void {
+  const top = undoStack[undoStack.length - 1];
+
+  // 直前と同じ対象の連続操作なら、戻し先は最初のまま、やり直し先だけ新しくする
+  if (entry.mergeKey && top?.mergeKey === entry.mergeKey && entry.at - top.at < MERGE_WINDOW_MS) {
+    undoStack[undoStack.length - 1] = { ...entry, undo: top.undo };
+  } else {
+    undoStack.push(entry);
+    if (undoStack.length > MAX_ENTRIES) undoStack.shift();
+  }
+
+  redoStack.length = 0;
+  emit({ id: ++noticeId, label: entry.label, kind: "done" });
+}
+
+// 書き込みが終わってから履歴を動かす（失敗したら積んだまま / 実行中の連打は無視）
+let running = false;
+
+async function move(
+  from: UndoEntry[],
+  to: UndoEntry[],
+  run: (entry: UndoEntry) => Promise<void>
+): Promise<UndoEntry | null> {
+  const entry = from[from.length - 1];
+  if (!entry || running) return null;
+
+  running = true;
+  try {
+    await run(entry);
+  } finally {
+    running = false;
+  }
+
+  // 待っている間に新しい操作が積まれていても、戻した項目だけを動かす
+  const i = from.lastIndexOf(entry);
+  if (i >= 0) from.splice(i, 1);
+  to.push(entry);
+  return entry;
+}
+
+export async function undo(): Promise<void> {
+  const entry = await move(undoStack, redoStack, (e) => e.undo());
+  if (entry) emit({ id: ++noticeId, label: entry.label, kind: "undone" });
+}
+
+export async function redo(): Promise<void> {
+  const entry = await move(redoStack, undoStack, (e) => e.redo());
+  if (entry) emit({ id: ++noticeId, label: entry.label, kind: "redone" });
+}
+
+// 保存の失敗をトーストで知らせる（保存先の容量不足・別タブでのDB更新で接続が閉じた など）
+export function reportSaveError(error: unknown): void {
+  console.error(error);
+  const label = error instanceof Error && error.message ? error.message : String(error);
+  emit({ id: ++noticeId, label, kind: "failed" });
+}
+
+// 書き込みを待たずに進める（画面は保存先の内容で描き直されるので、失敗したら知らせるだけ）
+export function saveInBackground(write: Promise<unknown>): void {
+  write.catch(reportSaveError);
+}
+
+// トーストを閉じる（履歴は残す）
+export function dismissNotice(): void {
+  emit(null);
+}
+
+/**
+ * タスク一覧を保存して、元に戻せるように記録する
+ * - 戻すときは保存前の一覧をそのまま書き戻す
+ */
+export async function saveTasksWithUndo(
+  repo: DataRepository,
+  prev: Task[],
+  next: Task[],
+  label: string
+): Promise<void> {
+  await repo.saveTasks(next);
+  push({
+    label,
+    undo: () => repo.saveTasks(prev),
+    redo: () => repo.saveTasks(next),
+    at: Date.now(),
+  });
+}
+
+/**
+ * 1日分の記録を変更して、元に戻せるように記録する
+ * - 書き込みと同じトランザクションで読んだ変更前後の内容を、戻す / やり直すときに上書きする（空なら削除）
+ * - mergeKey を渡すと、続けて入力した分は1回の操作としてまとめる
+ */
+export async function updateDayLogWithUndo(
+  repo: DataRepository,
+  date: DayISO,
+  update: (current: DayLog) => DayLog,
+  label: string,
+  mergeKey?: string
+): Promise<void> {
+  const { before, after } = await repo.updateDayLogs([date], update);
+
+  push({
+    label,
+    undo: () => repo.updateDayLog(date, () => before[date]),
+    redo: () => repo.updateDayLog(date, () => after[date]),
+    mergeKey,
+    at: Date.now(),
+  });
+}
+
+/**
+ * 複数の日の記録をまとめて変更して、1回の操作として元に戻せるように記録する
+ * - 期間でまとめて除外するときなど（日ごとの変更履歴はそれぞれの日に残る）
+ * - 変更・戻す・やり直すはどれも1回の書き込みで、通知も1回だけ
+ */
+export async function updateDayLogsWithUndo(
+  repo: DataRepository,
+  dates: DayISO[],
+  update: (current: DayLog) => DayLog,
+  label: string
+): Promise<void> {
+  const { before, after } = await repo.updateDayLogs(dates, update);
+
+  push({
+    label,
+    undo: async () => {
+      await repo.updateDayLogs(dates, (cur) => before[cur.date]);
+    },
+    redo: async () => {
+      await repo.updateDayLogs(dates, (cur) => after[cur.date]);
+    },
+    at: Date.now(),
+  });
+}
@@ -0,0 +1,56 @@
+// utils/clock.ts
+import { addDays, getDayStartMinutes, setDayStartMinutes, todayKey } from "./date";
+
+// --- 日付の切り替わりを知らせる時計 ---
+// 開きっぱなしのタブでも「今日」が次の日に進むように、区切りの時刻に合わせてタイマーを張る
+type DayChangeListener = (prevDay: string, nextDay: string) => void;
+
+const listeners = new Set<DayChangeListener>();
+let current = todayKey();
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+// 次に「今日」が変わるまでのミリ秒（明日の区切り時刻まで）
+const msUntilNextDay = (): number => {
+  const [y, m, d] = addDays(current, 1).split("-").map(Number);
+  const next = new Date(y, m - 1, d, 0, getDayStartMinutes());
+  return Math.max(1000, next.getTime() - Date.now());
+};
+
+const check = (): void => {
+  const next = todayKey();
+  if (next !== current) {
+    const prev = current;
+    current = next;
+    for (const l of listeners) l(prev, next);
+  }
+  schedule();
+};
+
+const schedule = (): void => {
+  if (timer) clearTimeout(timer);
+  timer = listeners.size > 0 ? setTimeout(check, msUntilNextDay()) : null;
+};
+
+export const getToday = (): string => current;
+
+export const subscribeDayChange = (listener: DayChangeListener): (() => void) => {
+  listeners.add(listener);
+  check(); // 購読していない間に日付が変わっていたら、ここで追いつく
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) schedule();
+  };
+};
+
+// 1日の区切りを変えたら、その場で「今日」を計算し直す
+export const setDayBoundary = (minutes: number): void => {
+  setDayStartMinutes(minutes);
+  check();
+};
+
+// スリープ復帰やタブの切り替えではタイマーが遅れるので、戻ってきたときにも確かめる
+if (typeof document !== "undefined") {
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") check();
+  });
+}
@@ -0,0 +1,14 @@
+// utils/csv.ts
+
+export type CsvCell = string | number;
+
+// 文字列は常に "" で囲む（カンマ・改行・日本語を含むメモでも列がずれないように）
+const escapeCell = (cell: CsvCell): string => {
+  if (typeof cell === "number") return Number.isFinite(cell) ? String(cell) : "";
+  return `"${cell.replace(/"/g, '""')}"`;
+};
+
+// Excelで文字化けしないよう BOM 付き・CRLF 区切りにする
+export const toCsv = (rows: CsvCell[][]): string => {
+  return "\uFEFF" + rows.map((r) => r.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+};
@@ -1,13 +1,27 @@
 // utils/date.ts
 
-export const todayKey = (): string => {
-  const now = new Date();
-  const y = now.getFullYear();
-  const m = String(now.getMonth() + 1).padStart(2, "0");
-  const d = String(now.getDate()).padStart(2, "0");
+// 1日の始まり（0:00からの分）。夜型の人向けに 4:00 などにずらせる（設定から反映される）
+let dayStartMinutes = 0;
+
+export const setDayStartMinutes = (minutes: number): void => {
+  dayStartMinutes = minutes;
+};
+
+export const getDayStartMinutes = (): number => dayStartMinutes;
+
+// Date をそのままローカル日付の "YYYY-MM-DD" にする（区切りは考えない）
+export const toDayKey = (date: Date): string => {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, "0");
+  const d = String(date.getDate()).padStart(2, "0");
   return `${y}-${m}-${d}`;
 };
 
+// 「今日」（1日の区切りより前なら前日扱い）
+export const todayKey = (now: Date = new Date()): string => {
+  return toDayKey(new Date(now.getTime() - dayStartMinutes * 60000));
+};
+
 export const isFutureDay = (
   dayKey: string,
   today: string = todayKey()
@@ -15,3 +29,69 @@ export const isFutureDay = (
   // YYYY-MM-DD は文字列比較で日付順になる
   return dayKey > today;
 };
+
+// "YYYY-MM-DD" を delta 日ずらす（ローカル日付で計算するので月またぎもOK）
+export const addDays = (dayKey: string, delta: number): string => {
+  const [y, m, d] = dayKey.split("-").map(Number);
+  const dt = new Date(y, (m ?? 1) - 1, d ?? 1);
+  dt.setDate(dt.getDate() + delta);
+  return toDayKey(dt);
+};
+
+// 今日までの直近 days 日（古い順）
+export const recentDays = (days: number, today: string = todayKey()): string[] => {
+  return Array.from({ length: days }, (_, i) => addDays(today, i - (days - 1)));
+};
+
+// "YYYY-MM-DD" -> "MM/DD"
+export const fmtMMDD = (dayKey: string): string => {
+  return dayKey.slice(5, 7) + "/" + dayKey.slice(8, 10);
+};
+
+// 曜日（0=日 … 6=土）
+export const weekdayOf = (dayKey: string): number => {
+  const [y, m, d] = dayKey.split("-").map(Number);
+  return new Date(y, (m ?? 1) - 1, d ?? 1).getDay();
+};
+
+// b - a の日数（どちらも "YYYY-MM-DD"）
+export const diffDays = (a: string, b: string): number => {
+  const [ay, am, ad] = a.split("-").map(Number);
+  const [by, bm, bd] = b.split("-").map(Number);
+  // UTCで比べると夏時間の影響を受けない
+  return Math.round((Date.UTC(by, bm - 1, bd) - Date.UTC(ay, am - 1, ad)) / 86400000);
+};
+
+// ISO週の月曜日（週は月曜はじまり）
+export const isoWeekStart = (dayKey: string): string => {
+  const wd = weekdayOf(dayKey); // 0=日
+  return addDays(dayKey, wd === 0 ? -6 : 1 - wd);
+};
+
+// ISO週の表記 "YYYY-Www"（年は「その週の木曜日」が属する年）
+export const isoWeekKey = (dayKey: string): string => {
+  const thursday = addDays(isoWeekStart(dayKey), 3);
+  const year = thursday.slice(0, 4);
+  const week = Math.floor(diffDays(`${year}-01-01`, thursday) / 7) + 1;
+  return `${year}-W${String(week).padStart(2, "0")}`;
+};
+
+// from〜to（"YYYY-MM-DD"）が重なる月 "YYYY-MM" の一覧（古い順）
+export const monthsBetween = (from: string, to: string): string[] => {
+  const out: string[] = [];
+  let y = Number(from.slice(0, 4));
+  let m = Number(from.slice(5, 7));
+  const last = to.slice(0, 7);
+
+  for (;;) {
+    const key = `${y}-${String(m).padStart(2, "0")}`;
+    if (key > last) break;
+    out.push(key);
+    m += 1;
+    if (m > 12) {
+      m = 1;
+      y += 1;
+    }
+  }
+  return out;
+};
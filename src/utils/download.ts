@@ -0,0 +1,16 @@
+// utils/download.ts
+
+// 文字列をファイルとしてダウンロードさせる
+export const downloadText = (fileName: string, text: string, mimeType: string): void => {
+  const blob = new Blob([text], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+
+  URL.revokeObjectURL(url);
+};